@@ -1,334 +1,192 @@
-import { type ReactNode, useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { DemandBuilder } from "@/components/DemandBuilder";
+import { DesignCharts } from "@/components/DesignCharts";
+import { DesignReport } from "@/components/DesignReport";
+import { ExistingSystemCard } from "@/components/ExistingSystemCard";
+import { MeteredRegenerationCard } from "@/components/MeteredRegenerationCard";
+import { MonteCarloPanel } from "@/components/MonteCarloPanel";
+import { ProjectLibrary } from "@/components/ProjectLibrary";
+import { ResinProfileFields } from "@/components/ResinProfileFields";
+import { SaltDoseComparison } from "@/components/SaltDoseComparison";
+import { ScenarioComparison } from "@/components/ScenarioComparison";
+import { SensitivityPanel } from "@/components/SensitivityPanel";
+import { StepCard } from "@/components/StepCard";
+import { buildStepDefinitions } from "@/components/stepDefinitions";
+import { WaterAnalysisFields } from "@/components/WaterAnalysisFields";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-
-type HardnessUnit = "mg/L (ppm) as CaCO₃" | "grains per gallon (gpg)";
-type SaltDose = 6 | 8 | 10 | 12 | 15;
-
-type FormValues = {
-  hardnessValue: string;
-  hardnessUnits: HardnessUnit;
-  useCompensation: boolean;
-  ironPpm: string;
-  manganesePpm: string;
-  gallonsPerDay: string;
-  daysBetweenRegen: string;
-  reservePercent: string;
-  saltDose: SaltDose;
-  overrideCapacity: boolean;
-  overrideCapacityValue: string;
-  saltDissolutionFactor: string;
-  peakFlowGpm: string;
-  serviceLoadingRate: string;
-  backwashRate: string;
-};
-
-const CAPACITY_BY_SALT_DOSE: Record<SaltDose, number> = {
-  6: 20000,
-  8: 22500,
-  10: 25000,
-  12: 27500,
-  15: 30000,
-};
-
-const SALT_DOSES: SaltDose[] = [6, 8, 10, 12, 15];
-
-const DEFAULT_VALUES: FormValues = {
-  hardnessValue: "",
-  hardnessUnits: "mg/L (ppm) as CaCO₃",
-  useCompensation: false,
-  ironPpm: "0",
-  manganesePpm: "0",
-  gallonsPerDay: "",
-  daysBetweenRegen: "",
-  reservePercent: "15",
-  saltDose: 8,
-  overrideCapacity: false,
-  overrideCapacityValue: "",
-  saltDissolutionFactor: "3",
-  peakFlowGpm: "",
-  serviceLoadingRate: "7",
-  backwashRate: "7",
-};
-
-type StepCardProps = {
-  number: number;
-  title: string;
-  formula: ReactNode;
-  result: string;
-  explanation: string;
-  blockedMessage?: string | null;
-};
-
-function StepCard({ number, title, formula, result, explanation, blockedMessage }: StepCardProps) {
-  return (
-    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
-      <CardHeader className="pb-4">
-        <CardTitle className="flex items-center gap-3 text-base">
-          <span className="flex h-8 w-8 items-center justify-center rounded-full bg-gradient-to-br from-cyan-500/90 to-blue-600/90 text-white font-semibold shadow-sm">
-            {number}
-          </span>
-          {title}
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-3 text-sm">
-        <div>
-          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Formula Used</p>
-          <div className="mt-1 space-y-1 rounded-md bg-muted/70 px-3 py-2 text-sm leading-relaxed [&_p]:m-0">{formula}</div>
-        </div>
-        <div>
-          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Computed Result</p>
-          {blockedMessage ? (
-            <p className="mt-1 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
-              {blockedMessage}
-            </p>
-          ) : (
-            <p className={`mt-1 text-lg font-semibold ${result === '—' ? 'text-muted-foreground/50' : 'text-foreground'}`}>{result}</p>
-          )}
-        </div>
-        <p className="leading-relaxed text-muted-foreground">{explanation}</p>
-      </CardContent>
-    </Card>
-  );
-}
-
-function parseInputNumber(value: string): number | null {
-  if (value.trim() === "") {
-    return null;
-  }
-
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : null;
-}
-
-function isPositive(value: number | null): value is number {
-  return value !== null && value > 0;
-}
-
-function formatNumber(value: number, decimals = 2): string {
-  return new Intl.NumberFormat("en-US", {
-    maximumFractionDigits: decimals,
-  }).format(value);
-}
-
-function formatResult(value: number | null, unit: string, decimals = 2): string {
-  if (value === null) {
-    return "—";
-  }
-
-  return `${formatNumber(value, decimals)} ${unit}`;
-}
+import { SALT_TYPE_LABELS, type SaltType } from "@/lib/brineTanks";
+import { projectOperatingCosts, SALT_PRICE_UNITS, type SaltPriceUnit } from "@/lib/economics";
+import { describeEvaluationFindings, evaluateExistingSystem, SIZING_MODE_LABELS, type SizingMode } from "@/lib/evaluation";
+import { formatCurrency, formatNumber, formatQuantity, formatResult, formatTankSize } from "@/lib/format";
+import { validateDesign } from "@/lib/designRules";
+import { createDesignFile, downloadDesignFile, type ImportedDesign } from "@/lib/designFile";
+import type { DemandEstimate } from "@/lib/demand";
+import { describeInputs } from "@/lib/inputSummary";
+import { describeLeakageShortfall, REGENERATION_MODE_LABELS, type RegenerationMode } from "@/lib/leakage";
+import { analyzeMeteredRegeneration, REGENERATION_CONTROL_LABELS, type RegenerationControl } from "@/lib/metered";
+import { createDesignDetails, type DesignDetails, type SavedDesign } from "@/lib/projectLibrary";
+import { CUSTOM_RESIN_LABEL, RESIN_PROFILES, RESIN_TYPES, type ResinProfile, type ResinType, SALT_DOSES } from "@/lib/resins";
+import { buildShareUrl, decodeShareHash, encodeShareHash } from "@/lib/shareLink";
+import {
+  buildSummaryExport,
+  downloadSummaryExport,
+  SUMMARY_FORMAT_LABELS,
+  type SummaryContent,
+  type SummaryFormat,
+  type SummaryOutput,
+} from "@/lib/summaryExport";
+import {
+  convertFormUnits,
+  customResinFormValues,
+  DEFAULT_VALUES,
+  formatInputValue,
+  type FormValues,
+  toEconomicsInputs,
+  toExistingSystem,
+  toSizingInputs,
+} from "@/lib/form";
+import { HARDNESS_UNITS, type HardnessUnit, sizeSoftener, SYSTEM_CONFIG_LABELS, type SystemConfig } from "@/lib/sizing";
+import { STANDARD_TANKS } from "@/lib/tanks";
+import { type Quantity, toDisplayUnits, UNIT_LABELS, UNIT_SYSTEM_LABELS, type UnitSystem } from "@/lib/units";
 
 export default function App() {
-  const [form, setForm] = useState<FormValues>(DEFAULT_VALUES);
+  const [form, setForm] = useState<FormValues>(() => decodeShareHash(window.location.hash) ?? DEFAULT_VALUES);
+  const [details, setDetails] = useState<DesignDetails>(createDesignDetails);
   const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "error">("idle");
+  const [linkStatus, setLinkStatus] = useState<"idle" | "copied" | "error">("idle");
+  const [summaryFormat, setSummaryFormat] = useState<SummaryFormat>("text");
+  const [view, setView] = useState<"calculator" | "report">("calculator");
+  const [showDemandBuilder, setShowDemandBuilder] = useState(false);
 
-  const calculated = useMemo(() => {
-    const hardnessValue = parseInputNumber(form.hardnessValue);
-    const gallonsPerDay = parseInputNumber(form.gallonsPerDay);
-    const daysBetweenRegen = parseInputNumber(form.daysBetweenRegen);
-    const reservePercent = parseInputNumber(form.reservePercent);
-    const overrideCapacityValue = parseInputNumber(form.overrideCapacityValue);
-    const saltDissolutionFactor = parseInputNumber(form.saltDissolutionFactor);
-    const peakFlowGpm = parseInputNumber(form.peakFlowGpm);
-    const serviceLoadingRate = parseInputNumber(form.serviceLoadingRate);
-    const backwashRate = parseInputNumber(form.backwashRate);
-
-    const ironPpm = form.useCompensation ? Math.max(0, parseInputNumber(form.ironPpm) ?? 0) : 0;
-    const manganesePpm = form.useCompensation ? Math.max(0, parseInputNumber(form.manganesePpm) ?? 0) : 0;
-
-    const requiredInputMissing =
-      !isPositive(hardnessValue) ||
-      !isPositive(gallonsPerDay) ||
-      !isPositive(daysBetweenRegen) ||
-      !isPositive(form.saltDose) ||
-      !isPositive(peakFlowGpm) ||
-      !isPositive(serviceLoadingRate);
-
-    const reserveTooHigh = reservePercent !== null && reservePercent >= 100;
-    const reserveBlockMessage = reserveTooHigh
-      ? "Reserve Capacity must be below 100%. Step 5 and all later steps are blocked."
-      : null;
-
-    const serviceLoadingError =
-      serviceLoadingRate !== null && serviceLoadingRate <= 0
-        ? "Service Loading Rate must be greater than 0. Steps 10 through 12 are blocked."
-        : null;
-
-    let step1HardnessGpg: number | null = null;
-    if (isPositive(hardnessValue)) {
-      step1HardnessGpg =
-        form.hardnessUnits === "mg/L (ppm) as CaCO₃" ? hardnessValue / 17.1 : hardnessValue;
-    }
-
-    let step2DesignHardnessGpg: number | null = null;
-    if (step1HardnessGpg !== null) {
-      step2DesignHardnessGpg = form.useCompensation
-        ? step1HardnessGpg + 4 * (ironPpm + manganesePpm)
-        : step1HardnessGpg;
-    }
-
-    let step3GrainsPerDay: number | null = null;
-    if (step2DesignHardnessGpg !== null && isPositive(gallonsPerDay)) {
-      step3GrainsPerDay = step2DesignHardnessGpg * gallonsPerDay;
-    }
-
-    let step4RequiredGrainsPerRun: number | null = null;
-    if (step3GrainsPerDay !== null && isPositive(daysBetweenRegen)) {
-      step4RequiredGrainsPerRun = step3GrainsPerDay * daysBetweenRegen;
-    }
-
-    let step5DesignGrainsPerRun: number | null = null;
-    let step5Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step4RequiredGrainsPerRun !== null) {
-      if (reservePercent === null) {
-        step5Message = "Enter Reserve Capacity to calculate Step 5.";
-      } else if (reservePercent < 0) {
-        step5Message = "Reserve Capacity cannot be negative.";
-      } else {
-        step5DesignGrainsPerRun = step4RequiredGrainsPerRun / (1 - reservePercent / 100);
-      }
-    }
-
-    let step6CapacityPerFt3: number | null = null;
-    let step6Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage) {
-      if (form.overrideCapacity) {
-        if (isPositive(overrideCapacityValue)) {
-          step6CapacityPerFt3 = overrideCapacityValue;
-        } else {
-          step6Message = "Override capacity per cubic foot must be greater than 0.";
-        }
-      } else {
-        step6CapacityPerFt3 = CAPACITY_BY_SALT_DOSE[form.saltDose];
-      }
-    }
-
-    let step7ResinFt3: number | null = null;
-    let step7Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step5DesignGrainsPerRun !== null && step6CapacityPerFt3 !== null) {
-      step7ResinFt3 = step5DesignGrainsPerRun / step6CapacityPerFt3;
-      step7Message = null;
-    } else if (!reserveBlockMessage && !step7Message) {
-      step7Message = "Complete Steps 5 and 6 to calculate resin volume.";
-    }
-
-    let step8SaltLbsPerRegen: number | null = null;
-    let step8Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step7ResinFt3 !== null) {
-      step8SaltLbsPerRegen = step7ResinFt3 * form.saltDose;
-      step8Message = null;
-    } else if (!reserveBlockMessage && !step8Message) {
-      step8Message = "Complete Step 7 to calculate salt per regeneration.";
-    }
+  useEffect(() => {
+    window.history.replaceState(null, "", encodeShareHash(form));
+  }, [form]);
 
-    let step9BrineWaterGallons: number | null = null;
-    let step9Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step8SaltLbsPerRegen !== null) {
-      if (isPositive(saltDissolutionFactor)) {
-        step9BrineWaterGallons = step8SaltLbsPerRegen / saltDissolutionFactor;
-        step9Message = null;
-      } else {
-        step9Message = "Salt Dissolution Factor must be greater than 0.";
-      }
-    } else if (!reserveBlockMessage && !step9Message) {
-      step9Message = "Complete Step 8 to calculate brine refill water.";
-    }
+  const sizingInputs = useMemo(() => toSizingInputs(form), [form]);
+  const calculated = useMemo(() => sizeSoftener(sizingInputs), [sizingInputs]);
+  const economicsInputs = useMemo(() => toEconomicsInputs(form), [form]);
+  const operatingCosts = useMemo(
+    () => projectOperatingCosts(sizingInputs, calculated, economicsInputs),
+    [sizingInputs, calculated, economicsInputs],
+  );
+  const meteredRegeneration = useMemo(
+    () => (sizingInputs.regenerationControl === "metered" ? analyzeMeteredRegeneration(sizingInputs, calculated) : null),
+    [sizingInputs, calculated],
+  );
+  const existingSystem = useMemo(() => toExistingSystem(form), [form]);
+  const evaluation = useMemo(
+    () => (form.sizingMode === "evaluate" ? evaluateExistingSystem(existingSystem, sizingInputs, calculated) : null),
+    [form.sizingMode, existingSystem, sizingInputs, calculated],
+  );
+  const evaluationFindings = useMemo(
+    () => (evaluation ? describeEvaluationFindings(evaluation, existingSystem, sizingInputs, form.unitSystem) : []),
+    [evaluation, existingSystem, sizingInputs, form.unitSystem],
+  );
+  const designViolations = useMemo(
+    () => validateDesign(sizingInputs, calculated, form.unitSystem),
+    [sizingInputs, calculated, form.unitSystem],
+  );
+  const steps = useMemo(
+    () => buildStepDefinitions(calculated, form.unitSystem, designViolations),
+    [calculated, form.unitSystem, designViolations],
+  );
 
-    let step10BedAreaFt2: number | null = null;
-    let step10Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage) {
-      if (!isPositive(peakFlowGpm)) {
-        step10Message = "Peak Flow Rate must be greater than 0.";
-      } else if (!isPositive(serviceLoadingRate)) {
-        step10Message = "Service Loading Rate must be greater than 0. Steps 10 through 12 are blocked.";
-      } else {
-        step10BedAreaFt2 = peakFlowGpm / serviceLoadingRate;
-        step10Message = null;
-      }
-    }
+  const updateField = <K extends keyof FormValues>(key: K, value: FormValues[K]) => {
+    setForm((current) => ({
+      ...current,
+      [key]: value,
+    }));
+  };
 
-    let step11DiameterFt: number | null = null;
-    let step11DiameterIn: number | null = null;
-    let step11Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step10BedAreaFt2 !== null) {
-      step11DiameterFt = 2 * Math.sqrt(step10BedAreaFt2 / Math.PI);
-      step11DiameterIn = step11DiameterFt * 12;
-      step11Message = null;
-    } else if (!reserveBlockMessage && step10Message) {
-      step11Message = step10Message;
-    }
+  const unitSystem = form.unitSystem;
+  const units = UNIT_LABELS[unitSystem];
+  const displayQuantity = (value: number | null, quantity: Quantity, decimals = 2) =>
+    formatQuantity(value, quantity, unitSystem, decimals);
 
-    let step12BackwashFlowGpm: number | null = null;
-    let step12Message: string | null = reserveBlockMessage;
-    if (!reserveBlockMessage && step10BedAreaFt2 !== null) {
-      if (isPositive(backwashRate)) {
-        step12BackwashFlowGpm = step10BedAreaFt2 * backwashRate;
-        step12Message = null;
-      } else {
-        step12Message = "Backwash Rate must be greater than 0.";
-      }
-    } else if (!reserveBlockMessage && step10Message) {
-      step12Message = step10Message;
-    }
+  const changeUnitSystem = (next: UnitSystem) => {
+    setForm((current) => convertFormUnits(current, next));
+  };
 
-    return {
-      requiredInputMissing,
-      reserveTooHigh,
-      serviceLoadingError,
-      step1HardnessGpg,
-      step2DesignHardnessGpg,
-      step3GrainsPerDay,
-      step4RequiredGrainsPerRun,
-      step5DesignGrainsPerRun,
-      step5Message,
-      step6CapacityPerFt3,
-      step6Message,
-      step7ResinFt3,
-      step7Message,
-      step8SaltLbsPerRegen,
-      step8Message,
-      step9BrineWaterGallons,
-      step9Message,
-      step10BedAreaFt2,
-      step10Message,
-      step11DiameterFt,
-      step11DiameterIn,
-      step11Message,
-      step12BackwashFlowGpm,
-      step12Message,
-    };
-  }, [form]);
+  const loadCustomResin = (resin: ResinProfile) => {
+    setForm((current) => ({ ...current, ...customResinFormValues(resin, current.unitSystem) }));
+  };
 
-  const updateField = <K extends keyof FormValues>(key: K, value: FormValues[K]) => {
+  const applyDemandEstimate = (estimate: DemandEstimate) => {
     setForm((current) => ({
       ...current,
-      [key]: value,
+      gallonsPerDay: formatInputValue(estimate.gallonsPerDay, "dailyVolume", current.unitSystem),
+      peakFlowGpm: formatInputValue(estimate.peakFlowGpm, "flow", current.unitSystem),
     }));
   };
 
   const resetToDefaults = () => {
-    setForm(DEFAULT_VALUES);
+    setForm(convertFormUnits(DEFAULT_VALUES, form.unitSystem));
     setCopyStatus("idle");
   };
 
-  const summaryText = [
-    "Industrial Water Softener Sizer Summary",
-    `Design hardness: ${formatResult(calculated.step2DesignHardnessGpg, "grains per gallon", 2)}`,
-    `Resin volume: ${formatResult(calculated.step7ResinFt3, "ft³", 2)}`,
-    `Salt per regeneration: ${formatResult(calculated.step8SaltLbsPerRegen, "pounds", 2)}`,
-    `Estimated brine refill water: ${formatResult(calculated.step9BrineWaterGallons, "gallons", 2)}`,
-    `Minimum tank diameter estimate: ${formatResult(calculated.step11DiameterIn, "in", 2)}`,
-    `Required backwash flow: ${formatResult(calculated.step12BackwashFlowGpm, "gallons per minute", 2)}`,
-  ].join("\n");
+  const leakageShortfall = describeLeakageShortfall(calculated, unitSystem);
+
+  const summaryOutputs: SummaryOutput[] = [
+    ...(evaluation
+      ? [
+          { label: "Existing system: capacity per regeneration, per tank", value: displayQuantity(evaluation.grainsPerRegen, "grains", 0) },
+          { label: "Existing system: true days between regenerations", value: formatResult(evaluation.trueDaysBetweenRegen, "days", 1) },
+          { label: "Existing system: service loading", value: displayQuantity(evaluation.serviceLoadingRate, "loadingRate", 2) },
+          { label: "Existing system: salt dose", value: displayQuantity(evaluation.saltDose, "saltDose", 1) },
+        ]
+      : []),
+    { label: "Design hardness", value: displayQuantity(calculated.step2DesignHardnessGpg, "hardness", 2) },
+    { label: "System configuration", value: SYSTEM_CONFIG_LABELS[form.systemConfig] },
+    { label: "Resin volume per tank", value: displayQuantity(calculated.step7ResinFt3, "resinVolume", 2) },
+    { label: "Total resin (all tanks)", value: displayQuantity(calculated.totalResinFt3, "resinVolume", 2) },
+    { label: "Salt per regeneration", value: displayQuantity(calculated.step8SaltLbsPerRegen, "saltMass", 2) },
+    { label: "Total salt per regeneration interval", value: displayQuantity(calculated.totalSaltLbsPerInterval, "saltMass", 2) },
+    { label: "Estimated brine refill water", value: displayQuantity(calculated.step9BrineWaterGallons, "waterVolume", 2) },
+    { label: "Minimum tank diameter estimate", value: displayQuantity(calculated.step11DiameterIn, "length", 2) },
+    { label: "Required backwash flow", value: displayQuantity(calculated.step12BackwashFlowGpm, "flow", 2) },
+    { label: "Regeneration wastewater per cycle", value: displayQuantity(calculated.step19WastewaterGallons, "waterVolume", 0) },
+    { label: "Total regeneration time", value: formatResult(calculated.step19RegenerationMinutes, "minutes", 0) },
+    { label: "Peak drain flow", value: displayQuantity(calculated.step19PeakDrainGpm, "flow", 2) },
+    { label: "Regenerations per year", value: formatResult(operatingCosts.regenerationsPerYear, "regenerations", 0) },
+    ...(meteredRegeneration
+      ? [
+          { label: "Meter set point per tank", value: displayQuantity(meteredRegeneration.setPointGallons, "waterVolumeLarge", 0) },
+          {
+            label: "Regenerations per week (average / peak day)",
+            value:
+              meteredRegeneration.regenerationsPerWeekAverage === null || meteredRegeneration.regenerationsPerWeekPeak === null
+                ? "—"
+                : `${formatNumber(meteredRegeneration.regenerationsPerWeekAverage, 1)} / ${formatNumber(meteredRegeneration.regenerationsPerWeekPeak, 1)}`,
+          },
+        ]
+      : []),
+    { label: "Annual salt", value: displayQuantity(operatingCosts.annualSaltTons, "saltMassLarge", 2) },
+    { label: "Annual regeneration water", value: displayQuantity(operatingCosts.annualRegenWaterGallons, "waterVolumeLarge", 0) },
+    { label: "Annual operating cost", value: formatCurrency(operatingCosts.annualOperatingCost) },
+    { label: "Selected vessel", value: calculated.step13Tank ? formatTankSize(calculated.step13Tank.diameterIn, calculated.step13Tank.sideShellIn, unitSystem) : "—" },
+    { label: "Bed depth in selected vessel", value: displayQuantity(calculated.step13BedDepthIn, "length", 1) },
+    { label: "Actual service loading rate", value: displayQuantity(calculated.step13ServiceLoadingRate, "loadingRate", 2) },
+    { label: "Expected hardness leakage", value: formatResult(calculated.step20LeakageMgL, "mg/L as CaCO₃", 2) },
+    { label: "Brine tank", value: calculated.step22BrineTank ? formatTankSize(calculated.step22BrineTank.diameterIn, calculated.step22BrineTank.heightIn, unitSystem) : "—" },
+    { label: "Brine tank salt storage", value: displayQuantity(calculated.step22SaltCapacityLbs, "saltMass", 0) },
+    { label: "Days of salt autonomy", value: formatResult(calculated.step22DaysOfAutonomy, "days", 1) },
+  ];
+
+  const summaryContent: SummaryContent = {
+    details,
+    inputs: describeInputs(form),
+    outputs: summaryOutputs,
+    steps,
+  };
 
   const copySummary = async () => {
     try {
-      await navigator.clipboard.writeText(summaryText);
+      await navigator.clipboard.writeText(buildSummaryExport(summaryFormat, summaryContent));
       setCopyStatus("copied");
     } catch {
       setCopyStatus("error");
@@ -339,6 +197,67 @@ export default function App() {
     }, 1800);
   };
 
+  const openSavedDesign = (design: SavedDesign) => {
+    setForm(design.form);
+    setDetails({
+      name: design.name,
+      customer: design.customer,
+      site: design.site,
+      date: design.date,
+      notes: design.notes,
+    });
+    setCopyStatus("idle");
+  };
+
+  const openScenario = (scenarioForm: FormValues) => {
+    setForm(scenarioForm);
+    setCopyStatus("idle");
+  };
+
+  const importDesign = (design: ImportedDesign) => {
+    setForm(design.form);
+    setDetails({ ...design.details, date: design.details.date || createDesignDetails().date });
+    setCopyStatus("idle");
+  };
+
+  const exportDesign = () => {
+    downloadDesignFile(createDesignFile(details, form, calculated, operatingCosts));
+  };
+
+  const openReport = () => {
+    setView("report");
+    window.scrollTo(0, 0);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(form));
+      setLinkStatus("copied");
+    } catch {
+      setLinkStatus("error");
+    }
+
+    setTimeout(() => {
+      setLinkStatus("idle");
+    }, 1800);
+  };
+
+  if (view === "report") {
+    return (
+      <DesignReport
+        details={details}
+        form={form}
+        calculated={calculated}
+        operatingCosts={operatingCosts}
+        meteredRegeneration={meteredRegeneration}
+        evaluation={evaluation}
+        evaluationFindings={evaluationFindings}
+        steps={steps}
+        onClose={() => setView("calculator")}
+      />
+    );
+  }
+
   return (
     <main className="relative mx-auto min-h-screen max-w-[1440px] px-3 py-5 sm:px-4 md:px-6 lg:px-8 lg:py-8">
       <div className="mb-6 space-y-3">
@@ -353,13 +272,110 @@ export default function App() {
             <p className="text-xs font-medium uppercase tracking-wider text-cyan-700/80 md:text-sm">Industrial Ion Exchange Calculations</p>
           </div>
         </div>
-        <p className="max-w-4xl text-sm text-muted-foreground md:text-base">
-          Enter operating assumptions, then review each step of the softener sizing math. Values update live as you type.
-        </p>
+        <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <p className="max-w-4xl text-sm text-muted-foreground md:text-base">
+            Enter operating assumptions, then review each step of the softener sizing math. Values update live as you type.
+          </p>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <div className="space-y-1 md:w-56">
+              <Label htmlFor="sizingMode">Mode</Label>
+              <Select
+                id="sizingMode"
+                value={form.sizingMode}
+                onChange={(event) => updateField("sizingMode", event.target.value as SizingMode)}
+              >
+                {(Object.keys(SIZING_MODE_LABELS) as SizingMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {SIZING_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1 md:w-56">
+              <Label htmlFor="unitSystem">Unit System</Label>
+              <Select
+                id="unitSystem"
+                value={unitSystem}
+                onChange={(event) => changeUnitSystem(event.target.value as UnitSystem)}
+              >
+                {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map((system) => (
+                  <option key={system} value={system}>
+                    {UNIT_SYSTEM_LABELS[system]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </div>
+        </div>
       </div>
 
       <div className="grid gap-6 lg:grid-cols-[minmax(320px,390px)_minmax(0,1fr)]">
         <section className="space-y-4 md:space-y-5">
+          {form.sizingMode === "evaluate" && (
+            <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+              <CardHeader className="border-b border-slate-100">
+                <CardTitle className="flex items-center gap-2">
+                  <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                  Installed System
+                </CardTitle>
+                <CardDescription>
+                  Per tank, as found on site. Water quality, actual water use, reserve, resin type, peak flow and system configuration
+                  come from the sections below.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="existingResinVolume">Installed Resin ({units.resinVolume})</Label>
+                    <Input
+                      id="existingResinVolume"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.existingResinVolume}
+                      onChange={(event) => updateField("existingResinVolume", event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="existingTankDiameter">Tank Diameter ({units.length})</Label>
+                    <Input
+                      id="existingTankDiameter"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.existingTankDiameter}
+                      onChange={(event) => updateField("existingTankDiameter", event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="existingSaltPerRegen">Salt Setting per Regeneration ({units.saltMass})</Label>
+                    <Input
+                      id="existingSaltPerRegen"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.existingSaltPerRegen}
+                      onChange={(event) => updateField("existingSaltPerRegen", event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="existingDaysBetweenRegen">Current Regeneration Interval (days)</Label>
+                    <Input
+                      id="existingDaysBetweenRegen"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.existingDaysBetweenRegen}
+                      onChange={(event) => updateField("existingDaysBetweenRegen", event.target.value)}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="border-slate-200/80 bg-white/95 shadow-sm">
             <CardHeader className="border-b border-slate-100">
               <CardTitle className="flex items-center gap-2">
@@ -370,29 +386,52 @@ export default function App() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="hardnessValue">Raw Hardness Value</Label>
-                <Input
-                  id="hardnessValue"
-                  type="number"
-                  min="0"
-                  step="any"
-                  value={form.hardnessValue}
-                  onChange={(event) => updateField("hardnessValue", event.target.value)}
-                />
+              <div className="rounded-lg border border-input bg-muted/40 p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="useWaterAnalysis">Enter detailed water analysis?</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">{form.useWaterAnalysis ? "YES" : "NO"}</span>
+                    <Switch
+                      id="useWaterAnalysis"
+                      checked={form.useWaterAnalysis}
+                      onCheckedChange={(checked) => updateField("useWaterAnalysis", checked)}
+                    />
+                  </div>
+                </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="hardnessUnits">Hardness Units</Label>
-                <Select
-                  id="hardnessUnits"
-                  value={form.hardnessUnits}
-                  onChange={(event) => updateField("hardnessUnits", event.target.value as HardnessUnit)}
-                >
-                  <option value="mg/L (ppm) as CaCO₃">mg/L (ppm) as CaCO₃</option>
-                  <option value="grains per gallon (gpg)">grains per gallon (gpg)</option>
-                </Select>
-              </div>
+              {form.useWaterAnalysis ? (
+                <WaterAnalysisFields form={form} analysis={calculated.waterAnalysis} onChange={updateField} />
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="hardnessValue">Raw Hardness Value</Label>
+                    <Input
+                      id="hardnessValue"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.hardnessValue}
+                      onChange={(event) => updateField("hardnessValue", event.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="hardnessUnits">Hardness Units</Label>
+                    <Select
+                      id="hardnessUnits"
+                      value={form.hardnessUnits}
+                      onChange={(event) => updateField("hardnessUnits", event.target.value as HardnessUnit)}
+                    >
+                      {HARDNESS_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {unit}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                </>
+              )}
 
               <div className="rounded-lg border border-input bg-muted/40 p-3">
                 <div className="flex items-center justify-between gap-4">
@@ -408,7 +447,7 @@ export default function App() {
                 </div>
               </div>
 
-              {form.useCompensation && (
+              {form.useCompensation && !form.useWaterAnalysis && (
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div className="space-y-2">
                     <Label htmlFor="ironPpm">Iron (Fe) (ppm)</Label>
@@ -448,7 +487,9 @@ export default function App() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="gallonsPerDay">Total Water Use (gallons per day)</Label>
+                <Label htmlFor="gallonsPerDay">
+                  {form.sizingMode === "evaluate" ? "Actual Water Use" : "Total Water Use"} ({units.dailyVolume})
+                </Label>
                 <Input
                   id="gallonsPerDay"
                   type="number"
@@ -470,6 +511,56 @@ export default function App() {
                   onChange={(event) => updateField("daysBetweenRegen", event.target.value)}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="regenerationControl">Regeneration Control</Label>
+                <Select
+                  id="regenerationControl"
+                  value={form.regenerationControl}
+                  onChange={(event) => updateField("regenerationControl", event.target.value as RegenerationControl)}
+                >
+                  {(Object.keys(REGENERATION_CONTROL_LABELS) as RegenerationControl[]).map((control) => (
+                    <option key={control} value={control}>
+                      {REGENERATION_CONTROL_LABELS[control]}
+                    </option>
+                  ))}
+                </Select>
+                {form.regenerationControl === "metered" && (
+                  <p className="text-xs text-muted-foreground">
+                    Resin is still sized for the target days between regenerations; the meter then regenerates on use.
+                  </p>
+                )}
+              </div>
+              {form.regenerationControl === "metered" && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="meteredTankModel">Metered Tank</Label>
+                    <Select
+                      id="meteredTankModel"
+                      value={form.meteredTankModel}
+                      onChange={(event) => updateField("meteredTankModel", event.target.value)}
+                    >
+                      <option value="">Vessel selected in Step 13</option>
+                      {STANDARD_TANKS.map((tank) => (
+                        <option key={tank.model} value={tank.model}>
+                          {formatTankSize(tank.diameterIn, tank.sideShellIn, unitSystem)} ({displayQuantity(tank.maxResinFt3, "resinVolume", unitSystem === "metric" ? 0 : 1)} resin)
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="peakDayGallons">Peak Day Water Use ({units.dailyVolume})</Label>
+                    <Input
+                      id="peakDayGallons"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Same as total water use"
+                      value={form.peakDayGallons}
+                      onChange={(event) => updateField("peakDayGallons", event.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="reservePercent">
                   Reserve Capacity (%)
@@ -489,6 +580,24 @@ export default function App() {
                   onChange={(event) => updateField("reservePercent", event.target.value)}
                 />
               </div>
+
+              <div className="rounded-lg border border-input bg-muted/40 p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="showDemandBuilder">Build demand from usage data?</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">{showDemandBuilder ? "ON" : "OFF"}</span>
+                    <Switch id="showDemandBuilder" checked={showDemandBuilder} onCheckedChange={setShowDemandBuilder} />
+                  </div>
+                </div>
+              </div>
+
+              {showDemandBuilder && (
+                <DemandBuilder
+                  unitSystem={unitSystem}
+                  regenerationMinutes={calculated.step19RegenerationMinutes}
+                  onApply={applyDemandEstimate}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -503,23 +612,42 @@ export default function App() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="saltDose">Salt Dose (pounds of sodium chloride per cubic foot of resin)</Label>
+                <Label htmlFor="resinType">Resin Type</Label>
                 <Select
-                  id="saltDose"
-                  value={String(form.saltDose)}
-                  onChange={(event) => updateField("saltDose", Number(event.target.value) as SaltDose)}
+                  id="resinType"
+                  value={form.resinType}
+                  onChange={(event) => updateField("resinType", event.target.value as ResinType)}
                 >
-                  {SALT_DOSES.map((dose) => (
-                    <option key={dose} value={dose}>
-                      {dose}
+                  {RESIN_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type === "custom" ? CUSTOM_RESIN_LABEL : RESIN_PROFILES[type].label}
                     </option>
                   ))}
                 </Select>
               </div>
 
+              <ResinProfileFields form={form} resin={sizingInputs.resin} onChange={updateField} onLoad={loadCustomResin} />
+
+              <div className="space-y-2">
+                <Label htmlFor="saltDose">Salt Dose ({units.saltDose})</Label>
+                <Input
+                  id="saltDose"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.saltDose}
+                  onChange={(event) => updateField("saltDose", event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Capacity is interpolated along the resin's curve between{" "}
+                  {formatNumber(toDisplayUnits(SALT_DOSES[0], "saltDose", unitSystem), 0)} and{" "}
+                  {displayQuantity(SALT_DOSES[SALT_DOSES.length - 1], "saltDose", 0)}.
+                </p>
+              </div>
+
               <div className="rounded-lg border border-input bg-muted/40 p-3">
                 <div className="flex items-center justify-between gap-4">
-                  <Label htmlFor="overrideCapacity">Override capacity per cubic foot?</Label>
+                  <Label htmlFor="overrideCapacity">Override working capacity?</Label>
                   <div className="flex items-center gap-2">
                     <span className="text-xs font-medium">{form.overrideCapacity ? "ON" : "OFF"}</span>
                     <Switch
@@ -533,7 +661,7 @@ export default function App() {
 
               {form.overrideCapacity && (
                 <div className="space-y-2">
-                  <Label htmlFor="overrideCapacityValue">Capacity per cubic foot (grains per cubic foot)</Label>
+                  <Label htmlFor="overrideCapacityValue">Working Capacity ({units.capacity})</Label>
                   <Input
                     id="overrideCapacityValue"
                     type="number"
@@ -546,7 +674,7 @@ export default function App() {
               )}
 
               <div className="space-y-2">
-                <Label htmlFor="saltDissolutionFactor">Salt Dissolution Factor (pounds of salt per gallon of water)</Label>
+                <Label htmlFor="saltDissolutionFactor">Salt Dissolution Factor ({units.dissolution})</Label>
                 <Input
                   id="saltDissolutionFactor"
                   type="number"
@@ -556,6 +684,48 @@ export default function App() {
                   onChange={(event) => updateField("saltDissolutionFactor", event.target.value)}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="regenerationMode">Regeneration Mode</Label>
+                <Select
+                  id="regenerationMode"
+                  value={form.regenerationMode}
+                  onChange={(event) => updateField("regenerationMode", event.target.value as RegenerationMode)}
+                >
+                  {(Object.keys(REGENERATION_MODE_LABELS) as RegenerationMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {REGENERATION_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                {!form.useWaterAnalysis && (
+                  <div className="space-y-2">
+                    <Label htmlFor="feedTdsMgL">Feed TDS (mg/L)</Label>
+                    <Input
+                      id="feedTdsMgL"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.tdsMgL}
+                      onChange={(event) => updateField("tdsMgL", event.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="effluentTargetMgL">Effluent Hardness Target (mg/L as CaCO₃)</Label>
+                  <Input
+                    id="effluentTargetMgL"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.effluentTargetMgL}
+                    onChange={(event) => updateField("effluentTargetMgL", event.target.value)}
+                  />
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -570,7 +740,39 @@ export default function App() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="peakFlowGpm">Peak Flow Rate (gallons per minute)</Label>
+                <Label htmlFor="systemConfig">System Configuration</Label>
+                <Select
+                  id="systemConfig"
+                  value={form.systemConfig}
+                  onChange={(event) => updateField("systemConfig", event.target.value as SystemConfig)}
+                >
+                  {(Object.keys(SYSTEM_CONFIG_LABELS) as SystemConfig[]).map((config) => (
+                    <option key={config} value={config}>
+                      {SYSTEM_CONFIG_LABELS[config]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
+              {form.systemConfig === "parallel" && (
+                <div className="space-y-2">
+                  <Label htmlFor="unitsInService">Units in Service (N)</Label>
+                  <Input
+                    id="unitsInService"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.unitsInService}
+                    onChange={(event) => updateField("unitsInService", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Peak flow and grain load are split across N tanks; one more tank is installed as standby.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="peakFlowGpm">Peak Flow Rate ({units.flow})</Label>
                 <Input
                   id="peakFlowGpm"
                   type="number"
@@ -582,7 +784,7 @@ export default function App() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="serviceLoadingRate">Service Loading Rate (gallons per minute per square foot of bed area)</Label>
+                <Label htmlFor="serviceLoadingRate">Service Loading Rate ({units.loadingRate})</Label>
                 <Input
                   id="serviceLoadingRate"
                   type="number"
@@ -597,17 +799,274 @@ export default function App() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="backwashRate">Backwash Rate (gallons per minute per square foot)</Label>
+                <Label htmlFor="waterTemperature">Water Temperature ({units.temperature})</Label>
+                <Input
+                  id="waterTemperature"
+                  type="number"
+                  step="any"
+                  value={form.waterTemperature}
+                  onChange={(event) => updateField("waterTemperature", event.target.value)}
+                />
+              </div>
+
+              <div className="rounded-lg border border-input bg-muted/40 p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="overrideBackwashRate">Override backwash rate?</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">{form.overrideBackwashRate ? "ON" : "OFF"}</span>
+                    <Switch
+                      id="overrideBackwashRate"
+                      checked={form.overrideBackwashRate}
+                      onCheckedChange={(checked) => updateField("overrideBackwashRate", checked)}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {form.overrideBackwashRate ? (
+                <div className="space-y-2">
+                  <Label htmlFor="backwashRate">Backwash Rate ({units.loadingRate})</Label>
+                  <Input
+                    id="backwashRate"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.backwashRate}
+                    onChange={(event) => updateField("backwashRate", event.target.value)}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="backwashExpansionPercent">Target Bed Expansion (%)</Label>
+                  <Input
+                    id="backwashExpansionPercent"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.backwashExpansionPercent}
+                    onChange={(event) => updateField("backwashExpansionPercent", event.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Temperature-corrected backwash rate: {displayQuantity(calculated.step12BackwashRate, "loadingRate", 2)}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+            <CardHeader className="border-b border-slate-100">
+              <CardTitle className="flex items-center gap-2">
+                <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Section 5 - Regeneration Cycle
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="backwashMinutes">Backwash Time (minutes)</Label>
+                <Input
+                  id="backwashMinutes"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.backwashMinutes}
+                  onChange={(event) => updateField("backwashMinutes", event.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="brineConcentrationPercent">Brine Concentration (% sodium chloride by weight)</Label>
+                <Input
+                  id="brineConcentrationPercent"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.brineConcentrationPercent}
+                  onChange={(event) => updateField("brineConcentrationPercent", event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Brine is drawn from the brine tank at this strength; saturated brine is about 26%.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="brineDrawRate">Brine Draw Rate ({units.brineDrawRate})</Label>
+                <Input
+                  id="brineDrawRate"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.brineDrawRate}
+                  onChange={(event) => updateField("brineDrawRate", event.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="slowRinseBedVolumes">Slow Rinse Volume (bed volumes)</Label>
+                <Input
+                  id="slowRinseBedVolumes"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.slowRinseBedVolumes}
+                  onChange={(event) => updateField("slowRinseBedVolumes", event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Slow rinse continues at the brine draw rate to push brine through the bed.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fastRinseRate">Fast Rinse Rate ({units.loadingRate})</Label>
+                <Input
+                  id="fastRinseRate"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.fastRinseRate}
+                  onChange={(event) => updateField("fastRinseRate", event.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fastRinseMinutes">Fast Rinse Time (minutes)</Label>
                 <Input
-                  id="backwashRate"
+                  id="fastRinseMinutes"
                   type="number"
                   min="0"
                   step="any"
-                  value={form.backwashRate}
-                  onChange={(event) => updateField("backwashRate", event.target.value)}
+                  value={form.fastRinseMinutes}
+                  onChange={(event) => updateField("fastRinseMinutes", event.target.value)}
                 />
               </div>
 
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="saltType">Salt Type</Label>
+                  <Select id="saltType" value={form.saltType} onChange={(event) => updateField("saltType", event.target.value as SaltType)}>
+                    {(Object.keys(SALT_TYPE_LABELS) as SaltType[]).map((saltType) => (
+                      <option key={saltType} value={saltType}>
+                        {SALT_TYPE_LABELS[saltType]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refillIntervalDays">Salt Refill Interval (days)</Label>
+                  <Input
+                    id="refillIntervalDays"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.refillIntervalDays}
+                    onChange={(event) => updateField("refillIntervalDays", event.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">The brine tank is sized to hold the salt used between deliveries.</p>
+            </CardContent>
+          </Card>
+
+          {meteredRegeneration && <MeteredRegenerationCard analysis={meteredRegeneration} unitSystem={unitSystem} />}
+
+          <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+            <CardHeader className="border-b border-slate-100">
+              <CardTitle className="flex items-center gap-2">
+                <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Section 6 - Operating Costs
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="saltPrice">Salt Price ($)</Label>
+                  <Input
+                    id="saltPrice"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.saltPrice}
+                    onChange={(event) => updateField("saltPrice", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="saltPriceUnit">Salt Price Basis</Label>
+                  <Select
+                    id="saltPriceUnit"
+                    value={form.saltPriceUnit}
+                    onChange={(event) => updateField("saltPriceUnit", event.target.value as SaltPriceUnit)}
+                  >
+                    {SALT_PRICE_UNITS.map((unit) => (
+                      <option key={unit} value={unit}>
+                        {unit === "per ton" ? units.priceSaltMass : unit}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="waterSewerCostPerKgal">Water and Sewer Cost ({units.priceWaterVolume})</Label>
+                <Input
+                  id="waterSewerCostPerKgal"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.waterSewerCostPerKgal}
+                  onChange={(event) => updateField("waterSewerCostPerKgal", event.target.value)}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="valvePowerWatts">Control Valve Power (watts per valve)</Label>
+                  <Input
+                    id="valvePowerWatts"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.valvePowerWatts}
+                    onChange={(event) => updateField("valvePowerWatts", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="electricityCostPerKwh">Electricity ($ per kWh)</Label>
+                  <Input
+                    id="electricityCostPerKwh"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.electricityCostPerKwh}
+                    onChange={(event) => updateField("electricityCostPerKwh", event.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="resinPricePerFt3">Resin Price ({units.priceResinVolume})</Label>
+                  <Input
+                    id="resinPricePerFt3"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.resinPricePerFt3}
+                    onChange={(event) => updateField("resinPricePerFt3", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="resinReplacementYears">Resin Replacement Interval (years)</Label>
+                  <Input
+                    id="resinReplacementYears"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.resinReplacementYears}
+                    onChange={(event) => updateField("resinReplacementYears", event.target.value)}
+                  />
+                </div>
+              </div>
+
               <div className="flex flex-col gap-3 pt-2 sm:flex-row sm:flex-wrap">
                 <Button onClick={resetToDefaults} variant="secondary" className="w-full sm:w-auto">
                   Reset to defaults
@@ -615,9 +1074,20 @@ export default function App() {
               </div>
             </CardContent>
           </Card>
+
+          <ProjectLibrary
+            form={form}
+            details={details}
+            onDetailsChange={setDetails}
+            onOpen={openSavedDesign}
+            onExport={exportDesign}
+            onImport={importDesign}
+          />
         </section>
 
         <section className="space-y-4">
+          {evaluation && <ExistingSystemCard evaluation={evaluation} findings={evaluationFindings} unitSystem={unitSystem} />}
+
           <Card className="border-slate-200/80 bg-white/95 shadow-sm">
             <CardHeader className="flex flex-col gap-3 border-b border-slate-100 md:flex-row md:items-center md:justify-between">
               <div>
@@ -629,9 +1099,14 @@ export default function App() {
                 </CardTitle>
                 <CardDescription>Key design outputs based on the current assumptions.</CardDescription>
               </div>
-              <Button onClick={copySummary} variant="outline" className="w-full md:w-auto">
-                Copy Summary to Clipboard
-              </Button>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Button onClick={copyLink} variant="outline" className="w-full md:w-auto">
+                  Copy link
+                </Button>
+                <Button onClick={openReport} className="w-full md:w-auto">
+                  Generate report
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="space-y-3">
               {calculated.requiredInputMissing && (
@@ -654,180 +1129,249 @@ export default function App() {
                   Reserve Capacity must be less than 100. Step 5 and beyond are blocked.
                 </p>
               )}
+              {calculated.systemMessage && (
+                <p className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {calculated.systemMessage}
+                </p>
+              )}
               {calculated.serviceLoadingError && (
                 <p className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
                   {calculated.serviceLoadingError}
                 </p>
               )}
+              {designViolations.length > 0 && (
+                <ul className="space-y-1 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                  {designViolations.map((violation) => (
+                    <li key={violation.id}>
+                      <span className={`font-semibold ${violation.severity === "critical" ? "text-destructive" : ""}`}>
+                        {violation.severity === "critical" ? "Critical" : "Warning"} · Step {violation.step}:
+                      </span>{" "}
+                      {violation.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {leakageShortfall && (
+                <p className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {leakageShortfall}
+                </p>
+              )}
 
               <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
                 <div className="rounded-lg border bg-muted/40 p-3">
                   <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Design hardness</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step2DesignHardnessGpg === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step2DesignHardnessGpg, "grains per gallon", 2)}
+                    {displayQuantity(calculated.step2DesignHardnessGpg, "hardness", 2)}
                   </p>
                 </div>
                 <div className="rounded-lg border bg-muted/40 p-3">
-                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Resin volume</p>
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Resin volume per tank</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step7ResinFt3 === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step7ResinFt3, "ft³", 2)}
+                    {displayQuantity(calculated.step7ResinFt3, "resinVolume", 2)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Total resin ({calculated.totalUnits ?? "—"} tanks)</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.totalResinFt3 === null ? 'text-muted-foreground/50' : ''}`}>
+                    {displayQuantity(calculated.totalResinFt3, "resinVolume", 2)}
                   </p>
                 </div>
                 <div className="rounded-lg border bg-muted/40 p-3">
                   <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Salt per regeneration</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step8SaltLbsPerRegen === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step8SaltLbsPerRegen, "pounds", 2)}
+                    {displayQuantity(calculated.step8SaltLbsPerRegen, "saltMass", 2)}
                   </p>
                 </div>
                 <div className="rounded-lg border bg-muted/40 p-3">
                   <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Estimated brine refill water</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step9BrineWaterGallons === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step9BrineWaterGallons, "gallons", 2)}
+                    {displayQuantity(calculated.step9BrineWaterGallons, "waterVolume", 2)}
                   </p>
                 </div>
                 <div className="rounded-lg border bg-muted/40 p-3">
                   <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Minimum tank diameter estimate</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step11DiameterIn === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step11DiameterIn, "in", 2)}
+                    {displayQuantity(calculated.step11DiameterIn, "length", 2)}
                   </p>
                 </div>
                 <div className="rounded-lg border bg-muted/40 p-3">
                   <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Required backwash flow</p>
                   <p className={`mt-1 text-lg font-semibold ${calculated.step12BackwashFlowGpm === null ? 'text-muted-foreground/50' : ''}`}>
-                    {formatResult(calculated.step12BackwashFlowGpm, "gallons per minute", 2)}
+                    {displayQuantity(calculated.step12BackwashFlowGpm, "flow", 2)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Regeneration wastewater per cycle</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.step19WastewaterGallons === null ? 'text-muted-foreground/50' : ''}`}>
+                    {displayQuantity(calculated.step19WastewaterGallons, "waterVolume", 0)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Total regeneration time</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.step19RegenerationMinutes === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatResult(calculated.step19RegenerationMinutes, "minutes", 0)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Peak drain flow</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.step19PeakDrainGpm === null ? 'text-muted-foreground/50' : ''}`}>
+                    {displayQuantity(calculated.step19PeakDrainGpm, "flow", 2)}
                   </p>
                 </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Selected vessel</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.step13Tank === null ? 'text-muted-foreground/50' : ''}`}>
+                    {calculated.step13Tank ? formatTankSize(calculated.step13Tank.diameterIn, calculated.step13Tank.sideShellIn, unitSystem) : "—"}
+                  </p>
+                  {calculated.step13Tank && (
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {displayQuantity(calculated.step13BedDepthIn, "length", 1)} bed depth ·{" "}
+                      {displayQuantity(calculated.step13ServiceLoadingRate, "loadingRate", 2)}
+                    </p>
+                  )}
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Expected hardness leakage</p>
+                  <p
+                    className={`mt-1 text-lg font-semibold ${calculated.step20LeakageMgL === null ? 'text-muted-foreground/50' : calculated.step20MeetsTarget === false ? 'text-destructive' : ''}`}
+                  >
+                    {formatResult(calculated.step20LeakageMgL, "mg/L as CaCO₃", 2)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Brine tank</p>
+                  <p className={`mt-1 text-lg font-semibold ${calculated.step22BrineTank === null ? 'text-muted-foreground/50' : ''}`}>
+                    {calculated.step22BrineTank ? formatTankSize(calculated.step22BrineTank.diameterIn, calculated.step22BrineTank.heightIn, unitSystem) : "—"}
+                  </p>
+                  {calculated.step22BrineTank && (
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {displayQuantity(calculated.step22SaltCapacityLbs, "saltMass", 0)} salt ·{" "}
+                      {formatResult(calculated.step22DaysOfAutonomy, "days", 1)} of autonomy
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-2 border-t border-slate-100 pt-3 sm:flex-row sm:items-end">
+                <div className="space-y-1 sm:w-44">
+                  <Label htmlFor="summaryFormat">Export Format</Label>
+                  <Select
+                    id="summaryFormat"
+                    value={summaryFormat}
+                    onChange={(event) => setSummaryFormat(event.target.value as SummaryFormat)}
+                  >
+                    {(Object.keys(SUMMARY_FORMAT_LABELS) as SummaryFormat[]).map((format) => (
+                      <option key={format} value={format}>
+                        {SUMMARY_FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <Button onClick={copySummary} variant="outline" className="w-full sm:w-auto">
+                  Copy Summary to Clipboard
+                </Button>
+                <Button onClick={() => downloadSummaryExport(summaryFormat, summaryContent)} variant="outline" className="w-full sm:w-auto">
+                  Download
+                </Button>
               </div>
 
               {copyStatus === "copied" && <p className="text-sm text-emerald-700">Summary copied to clipboard.</p>}
               {copyStatus === "error" && (
                 <p className="text-sm text-destructive">Could not copy summary. Clipboard access may be blocked.</p>
               )}
+              {linkStatus === "copied" && <p className="text-sm text-emerald-700">Design link copied to clipboard.</p>}
+              {linkStatus === "error" && (
+                <p className="text-sm text-destructive">Could not copy link. Clipboard access may be blocked.</p>
+              )}
             </CardContent>
           </Card>
 
-          <StepCard
-            number={1}
-            title="Convert Hardness to Grains per Gallon"
-            formula={
-              <>
-                <p>If hardness is entered as milligrams per liter as CaCO₃: hardness in grains per gallon = hardness value ÷ 17.1.</p>
-                <p>If hardness is already in grains per gallon: hardness in grains per gallon = hardness value.</p>
-              </>
-            }
-            result={formatResult(calculated.step1HardnessGpg, "grains per gallon", 2)}
-            explanation="This converts the hardness to grains per gallon so every later step is in one consistent unit. Softener capacity ratings are commonly expressed in grains, so grains per gallon makes the sizing math straightforward and comparable."
-          />
-
-          <StepCard
-            number={2}
-            title="Determine Design Hardness (Compensated or Not)"
-            formula={
-              <>
-                <p>When compensation is off: design hardness = hardness in grains per gallon.</p>
-                <p>When compensation is on: design hardness = hardness in grains per gallon + 4 × (iron in ppm + manganese in ppm).</p>
-              </>
-            }
-            result={formatResult(calculated.step2DesignHardnessGpg, "grains per gallon", 2)}
-            explanation="Iron and manganese can consume exchange capacity and cause the resin bed to exhaust earlier than hardness-only calculations predict. Compensation adds a conservative load so the design is less likely to leak hardness before regeneration."
-          />
-
-          <StepCard
-            number={3}
-            title="Daily Hardness Load (grains per day)"
-            formula="Daily hardness load = design hardness × gallons per day."
-            result={formatResult(calculated.step3GrainsPerDay, "grains per day", 0)}
-            explanation="This value is the total ion-exchange workload the softener must handle every day. It links water chemistry and water volume into one operating demand number."
-          />
-
-          <StepCard
-            number={4}
-            title="Required Capacity Per Run (before reserve)"
-            formula="Required capacity per run = daily hardness load × target days between regenerations."
-            result={formatResult(calculated.step4RequiredGrainsPerRun, "grains", 0)}
-            explanation="This is the theoretical capacity needed for the selected regeneration interval with no safety margin. It establishes the baseline run length requirement before adding reserve."
-          />
-
-          <StepCard
-            number={5}
-            title="Add Reserve (design grains per run)"
-            formula="Reserve fraction = reserve capacity percent ÷ 100. Design grains per run = required grains per run ÷ (1 − reserve fraction)."
-            result={formatResult(calculated.step5DesignGrainsPerRun, "grains", 0)}
-            blockedMessage={calculated.step5Message}
-            explanation="Reserve capacity keeps the bed from operating right at the edge of exhaustion. This buffer reduces the chance of surprise hardness breakthrough during flow spikes or schedule drift."
-          />
-
-          <StepCard
-            number={6}
-            title="Determine Working Capacity per Cubic Foot of Resin"
-            formula={
-              <>
-                <p>When override is off: use the built-in capacity table for the selected salt dose.</p>
-                <p>When override is on: use the manually entered capacity per cubic foot.</p>
-              </>
-            }
-            result={formatResult(calculated.step6CapacityPerFt3, "grains per cubic foot", 0)}
-            blockedMessage={calculated.step6Message}
-            explanation="Working capacity per cubic foot depends strongly on salt dose. Higher salt dose usually recovers more capacity, but it increases salt use and operating cost."
-          />
+          <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+            <CardHeader className="border-b border-slate-100">
+              <CardTitle className="flex items-center gap-2">
+                <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Operating Cost Projection
+              </CardTitle>
+              <CardDescription>Annual consumables for every tank in the system.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {operatingCosts.message && (
+                <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">{operatingCosts.message}</p>
+              )}
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Regenerations per year</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.regenerationsPerYear === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatResult(operatingCosts.regenerationsPerYear, "regenerations", 0)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual salt</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualSaltTons === null ? 'text-muted-foreground/50' : ''}`}>
+                    {displayQuantity(operatingCosts.annualSaltTons, "saltMassLarge", 2)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual regeneration water</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualRegenWaterGallons === null ? 'text-muted-foreground/50' : ''}`}>
+                    {displayQuantity(operatingCosts.annualRegenWaterGallons, "waterVolumeLarge", 0)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual salt cost</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualSaltCost === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatCurrency(operatingCosts.annualSaltCost)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual water and sewer cost</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualWaterCost === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatCurrency(operatingCosts.annualWaterCost)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual electricity cost</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualElectricityCost === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatCurrency(operatingCosts.annualElectricityCost)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual resin replacement</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualResinCost === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatCurrency(operatingCosts.annualResinCost)}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-muted/40 p-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Annual operating cost</p>
+                  <p className={`mt-1 text-lg font-semibold ${operatingCosts.annualOperatingCost === null ? 'text-muted-foreground/50' : ''}`}>
+                    {formatCurrency(operatingCosts.annualOperatingCost)}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
 
-          <StepCard
-            number={7}
-            title="Required Resin Volume (cubic feet)"
-            formula="Required resin volume = design grains per run ÷ working capacity per cubic foot."
-            result={formatResult(calculated.step7ResinFt3, "ft³", 2)}
-            blockedMessage={calculated.step7Message}
-            explanation="This is the amount of resin required to carry the design grain load each run. More resin means more exchange sites available before exhaustion."
+          <DesignCharts
+            sizingInputs={sizingInputs}
+            economicsInputs={economicsInputs}
+            calculated={calculated}
+            operatingCosts={operatingCosts}
+            unitSystem={unitSystem}
           />
 
-          <StepCard
-            number={8}
-            title="Salt Required Per Regeneration (pounds)"
-            formula="Salt required per regeneration = resin volume × salt dose."
-            result={formatResult(calculated.step8SaltLbsPerRegen, "pounds", 2)}
-            blockedMessage={calculated.step8Message}
-            explanation="This estimates how much salt each regeneration event will consume. It is a key operating metric for salt delivery planning and ongoing cost tracking."
-          />
+          <SaltDoseComparison sizingInputs={sizingInputs} economicsInputs={economicsInputs} unitSystem={unitSystem} />
 
-          <StepCard
-            number={9}
-            title="Estimated Brine Refill Water (gallons)"
-            formula="Estimated brine refill water = salt required per regeneration ÷ salt dissolution factor."
-            result={formatResult(calculated.step9BrineWaterGallons, "gallons", 2)}
-            blockedMessage={calculated.step9Message}
-            explanation="This provides a practical estimate of refill water needed to dissolve regeneration salt. It helps size refill settings and confirms the brine system can support expected regeneration demand."
-          />
+          <SensitivityPanel sizingInputs={sizingInputs} calculated={calculated} unitSystem={unitSystem} />
 
-          <StepCard
-            number={10}
-            title="Required Bed Area (square feet) from Peak Flow"
-            formula="Required bed area = peak flow rate ÷ service loading rate."
-            result={formatResult(calculated.step10BedAreaFt2, "ft²", 2)}
-            blockedMessage={calculated.step10Message}
-            explanation="This checks whether bed surface area is large enough for the expected peak service flow. Keeping loading rate in range lowers the risk of channeling and hardness leakage."
-          />
+          <MonteCarloPanel sizingInputs={sizingInputs} calculated={calculated} unitSystem={unitSystem} />
 
-          <StepCard
-            number={11}
-            title="Minimum Tank Diameter Estimate (inches)"
-            formula="Tank diameter in feet = 2 × square root of (bed area ÷ pi). Tank diameter in inches = tank diameter in feet × 12."
-            result={
-              calculated.step11DiameterFt === null || calculated.step11DiameterIn === null
-                ? "—"
-                : `${formatNumber(calculated.step11DiameterFt, 2)} feet (${formatNumber(calculated.step11DiameterIn, 2)} inches)`
-            }
-            blockedMessage={calculated.step11Message}
-            explanation="This converts required flow area into an equivalent circular vessel diameter. Treat it as a first-pass diameter before checking standard vessel sizes and bed depth limits."
-          />
+          <ScenarioComparison form={form} unitSystem={unitSystem} onOpen={openScenario} />
 
-          <StepCard
-            number={12}
-            title="Backwash Flow Requirement (gallons per minute)"
-            formula="Backwash flow requirement = bed area × backwash rate."
-            result={formatResult(calculated.step12BackwashFlowGpm, "gallons per minute", 2)}
-            blockedMessage={calculated.step12Message}
-            explanation="Backwash reclassifies and cleans the resin bed after service. This flow requirement must be supported by the water source and drain system so cleaning is effective."
-          />
+          {steps.map((step) => (
+            <StepCard key={step.number} {...step} />
+          ))}
         </section>
       </div>
     </main>
@@ -0,0 +1,249 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import {
+  DEFAULT_HOURLY_PEAK_FACTOR,
+  type DemandEstimate,
+  estimateFromHourlyUsage,
+  estimateFromProcessLoads,
+  formatHour,
+  HOURS_PER_DAY,
+} from "@/lib/demand";
+import { formatQuantity } from "@/lib/format";
+import { convertInputValue, parseInputNumber } from "@/lib/form";
+import { fromDisplayUnits, type Quantity, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+type DemandMode = "hourly" | "loads";
+
+const DEMAND_MODE_LABELS: Record<DemandMode, string> = {
+  hourly: "24-hour usage profile",
+  loads: "Process loads",
+};
+
+/** Form text for one load; flow is in the display unit system like every other entry. */
+type LoadEntry = {
+  id: string;
+  name: string;
+  flow: string;
+  startHour: string;
+  hoursPerDay: string;
+};
+
+type DemandBuilderProps = {
+  unitSystem: UnitSystem;
+  /** Step 19 regeneration time, used to size the suggested regeneration window. */
+  regenerationMinutes: number | null;
+  onApply: (estimate: DemandEstimate) => void;
+};
+
+function createLoad(): LoadEntry {
+  return { id: crypto.randomUUID(), name: "", flow: "", startHour: "0", hoursPerDay: "" };
+}
+
+export function DemandBuilder({ unitSystem, regenerationMinutes, onApply }: DemandBuilderProps) {
+  const [mode, setMode] = useState<DemandMode>("hourly");
+  const [hourly, setHourly] = useState<string[]>(() => Array<string>(HOURS_PER_DAY).fill(""));
+  const [peakFactor, setPeakFactor] = useState(String(DEFAULT_HOURLY_PEAK_FACTOR));
+  const [loads, setLoads] = useState<LoadEntry[]>(() => [createLoad()]);
+  const [entryUnitSystem, setEntryUnitSystem] = useState(unitSystem);
+  const units = UNIT_LABELS[unitSystem];
+
+  // Entries are typed in display units, so re-express them when the unit system changes.
+  if (entryUnitSystem !== unitSystem) {
+    const convert = (value: string, quantity: Quantity) => convertInputValue(value, quantity, entryUnitSystem, unitSystem);
+    setHourly(hourly.map((value) => convert(value, "waterVolumeLarge")));
+    setLoads(loads.map((load) => ({ ...load, flow: convert(load.flow, "flow") })));
+    setEntryUnitSystem(unitSystem);
+  }
+
+  const estimate = useMemo(() => {
+    const parse = (value: string, quantity?: Quantity) => {
+      const parsed = parseInputNumber(value);
+      return parsed === null || !quantity ? parsed : fromDisplayUnits(parsed, quantity, unitSystem);
+    };
+
+    if (mode === "hourly") {
+      return estimateFromHourlyUsage(
+        hourly.map((value) => parse(value, "waterVolumeLarge")),
+        parse(peakFactor),
+        regenerationMinutes,
+      );
+    }
+    return estimateFromProcessLoads(
+      loads.map((load) => ({
+        flowGpm: parse(load.flow, "flow"),
+        startHour: parse(load.startHour),
+        hoursPerDay: parse(load.hoursPerDay),
+      })),
+      regenerationMinutes,
+    );
+  }, [mode, hourly, peakFactor, loads, regenerationMinutes, unitSystem]);
+
+  const updateHour = (hour: number, value: string) => {
+    setHourly((current) => current.map((entry, index) => (index === hour ? value : entry)));
+  };
+
+  const updateLoad = <K extends keyof LoadEntry>(id: string, key: K, value: LoadEntry[K]) => {
+    setLoads((current) => current.map((load) => (load.id === id ? { ...load, [key]: value } : load)));
+  };
+
+  const regenerationWindow = estimate?.regenerationWindow;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-input bg-muted/20 p-3">
+      <div className="space-y-2">
+        <Label htmlFor="demandMode">Demand Data</Label>
+        <Select id="demandMode" value={mode} onChange={(event) => setMode(event.target.value as DemandMode)}>
+          {(Object.keys(DEMAND_MODE_LABELS) as DemandMode[]).map((option) => (
+            <option key={option} value={option}>
+              {DEMAND_MODE_LABELS[option]}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      {mode === "hourly" ? (
+        <>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Water used in each hour ({units.waterVolumeLarge})
+            </p>
+            <div className="mt-2 grid grid-cols-3 gap-2 sm:grid-cols-4">
+              {hourly.map((value, hour) => (
+                <div key={hour} className="space-y-1">
+                  <Label htmlFor={`demandHour${hour}`} className="text-xs text-muted-foreground">
+                    {formatHour(hour)}
+                  </Label>
+                  <Input
+                    id={`demandHour${hour}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={value}
+                    onChange={(event) => updateHour(hour, event.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="demandPeakFactor">Peak Factor (instantaneous ÷ busiest-hour average)</Label>
+            <Input
+              id="demandPeakFactor"
+              type="number"
+              min="1"
+              step="any"
+              value={peakFactor}
+              onChange={(event) => setPeakFactor(event.target.value)}
+            />
+          </div>
+        </>
+      ) : (
+        <div className="space-y-3">
+          {loads.map((load, index) => (
+            <div key={load.id} className="space-y-3 rounded-md border bg-white/70 p-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor={`loadName${load.id}`}>Load {index + 1}</Label>
+                  <Input
+                    id={`loadName${load.id}`}
+                    placeholder="Boiler feed, rinse line…"
+                    value={load.name}
+                    onChange={(event) => updateLoad(load.id, "name", event.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={() => setLoads((current) => current.filter((entry) => entry.id !== load.id))}
+                  disabled={loads.length === 1}
+                  size="sm"
+                  variant="ghost"
+                  className="h-11 text-destructive"
+                >
+                  Remove
+                </Button>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`loadFlow${load.id}`}>Flow ({units.flow})</Label>
+                  <Input
+                    id={`loadFlow${load.id}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={load.flow}
+                    onChange={(event) => updateLoad(load.id, "flow", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`loadStart${load.id}`}>Start Hour (0–23)</Label>
+                  <Input
+                    id={`loadStart${load.id}`}
+                    type="number"
+                    min="0"
+                    max="23"
+                    step="1"
+                    value={load.startHour}
+                    onChange={(event) => updateLoad(load.id, "startHour", event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`loadHours${load.id}`}>Hours per Day</Label>
+                  <Input
+                    id={`loadHours${load.id}`}
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="any"
+                    value={load.hoursPerDay}
+                    onChange={(event) => updateLoad(load.id, "hoursPerDay", event.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          <Button onClick={() => setLoads((current) => [...current, createLoad()])} variant="outline" className="w-full sm:w-auto">
+            Add load
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Daily water use</p>
+          <p className={`mt-1 text-lg font-semibold ${estimate ? "" : "text-muted-foreground/50"}`}>
+            {formatQuantity(estimate?.gallonsPerDay ?? null, "dailyVolume", unitSystem, 0)}
+          </p>
+        </div>
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Peak flow</p>
+          <p className={`mt-1 text-lg font-semibold ${estimate ? "" : "text-muted-foreground/50"}`}>
+            {formatQuantity(estimate?.peakFlowGpm ?? null, "flow", unitSystem, 1)}
+          </p>
+        </div>
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Suggested regeneration window</p>
+          <p className={`mt-1 text-lg font-semibold ${regenerationWindow ? "" : "text-muted-foreground/50"}`}>
+            {regenerationWindow
+              ? `${formatHour(regenerationWindow.startHour)}–${formatHour(regenerationWindow.startHour + regenerationWindow.hours)}`
+              : "—"}
+          </p>
+          {regenerationWindow && (
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              {formatQuantity(regenerationWindow.gallons, "waterVolumeLarge", unitSystem, 0)} used during the window
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Button onClick={() => estimate && onApply(estimate)} disabled={!estimate} className="w-full sm:w-auto">
+        Use daily water use and peak flow
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Fills Total Water Use in Section 2 and Peak Flow Rate in Section 4. The window is the quietest stretch long enough for one
+        regeneration{regenerationMinutes === null ? " (2 hours until Step 19 is calculated)" : ""}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMemo } from "react";
+import { type ChartSeries, LineChart } from "@/components/LineChart";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { sweepPeakFlow, sweepRegenerationInterval } from "@/lib/chartData";
+import type { EconomicsInputs, OperatingCostProjection } from "@/lib/economics";
+import { sweepSaltDoses } from "@/lib/saltSweep";
+import type { SizingInputs, SizingResult } from "@/lib/sizing";
+import { type Quantity, toDisplayUnits, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+type DesignChartsProps = {
+  sizingInputs: SizingInputs;
+  economicsInputs: EconomicsInputs;
+  calculated: SizingResult;
+  operatingCosts: OperatingCostProjection;
+  unitSystem: UnitSystem;
+};
+
+const LEFT_SERIES = { strokeClass: "stroke-cyan-600", fillClass: "fill-cyan-600" };
+const RIGHT_SERIES = { strokeClass: "stroke-amber-500", fillClass: "fill-amber-500" };
+
+function hasValues(series: ChartSeries[]): boolean {
+  return series.some((entry) => entry.values.some((value) => value !== null));
+}
+
+export function DesignCharts({ sizingInputs, economicsInputs, calculated, operatingCosts, unitSystem }: DesignChartsProps) {
+  const units = UNIT_LABELS[unitSystem];
+  const display = (value: number | null, quantity: Quantity) =>
+    value === null ? null : toDisplayUnits(value, quantity, unitSystem);
+
+  // Each interval point is a full sizing run on every input change. `intervalRange` stops at 60:
+  // about ten plot pixels apart on the 640-wide chart, which still shows each tank-size step,
+  // while a very long interval no longer stalls typing with hundreds of runs.
+  const intervalPoints = useMemo(() => sweepRegenerationInterval(sizingInputs), [sizingInputs]);
+  const saltRows = useMemo(() => sweepSaltDoses(sizingInputs, economicsInputs, true).rows, [sizingInputs, economicsInputs]);
+  const flowPoints = useMemo(() => sweepPeakFlow(sizingInputs), [sizingInputs]);
+
+  const intervalSeries: ChartSeries[] = [
+    {
+      label: "Resin per tank",
+      values: intervalPoints.map((point) => display(point.resinFt3, "resinVolume")),
+      axis: "left",
+      decimals: unitSystem === "metric" ? 0 : 2,
+      ...LEFT_SERIES,
+    },
+    {
+      label: "Selected tank diameter",
+      values: intervalPoints.map((point) => display(point.tankDiameterIn, "length")),
+      axis: "right",
+      stepped: true,
+      decimals: 0,
+      ...RIGHT_SERIES,
+    },
+  ];
+
+  const saltSeries: ChartSeries[] = [
+    {
+      label: "Salt per regeneration",
+      values: saltRows.map((row) => display(row.saltLbsPerRegen, "saltMass")),
+      axis: "left",
+      decimals: 0,
+      ...LEFT_SERIES,
+    },
+    {
+      label: "Annual salt",
+      values: saltRows.map((row) => display(row.annualSaltTons, "saltMassLarge")),
+      axis: "right",
+      decimals: 2,
+      ...RIGHT_SERIES,
+    },
+  ];
+
+  const flowSeries: ChartSeries[] = [
+    {
+      label: "Bed area",
+      values: flowPoints.map((point) => display(point.bedAreaFt2, "area")),
+      axis: "left",
+      decimals: 2,
+      ...LEFT_SERIES,
+    },
+  ];
+
+  const charts = [
+    {
+      title: "Resin Volume and Tank Diameter vs Days Between Regenerations",
+      series: intervalSeries,
+      xValues: intervalPoints.map((point) => point.daysBetweenRegen),
+      xLabel: "Days between regenerations",
+      xDecimals: 1,
+      leftLabel: `Resin (${units.resinVolume})`,
+      rightLabel: `Tank diameter (${units.length})`,
+      marker:
+        sizingInputs.daysBetweenRegen === null
+          ? null
+          : {
+              x: sizingInputs.daysBetweenRegen,
+              values: [display(calculated.step7ResinFt3, "resinVolume"), display(calculated.step13Tank?.diameterIn ?? null, "length")],
+            },
+    },
+    {
+      title: "Salt per Regeneration and Annual Salt vs Salt Dose",
+      series: saltSeries,
+      xValues: saltRows.map((row) => toDisplayUnits(row.saltDose, "saltDose", unitSystem)),
+      xLabel: `Salt dose (${units.saltDose})`,
+      xDecimals: unitSystem === "metric" ? 0 : 1,
+      leftLabel: `Salt per regen (${units.saltMass})`,
+      rightLabel: `Annual salt (${units.saltMassLarge})`,
+      marker:
+        sizingInputs.saltDose === null
+          ? null
+          : {
+              x: toDisplayUnits(sizingInputs.saltDose, "saltDose", unitSystem),
+              values: [display(calculated.step8SaltLbsPerRegen, "saltMass"), display(operatingCosts.annualSaltTons, "saltMassLarge")],
+            },
+    },
+    {
+      title: "Bed Area vs Peak Flow",
+      series: flowSeries,
+      xValues: flowPoints.map((point) => toDisplayUnits(point.peakFlowGpm, "flow", unitSystem)),
+      xLabel: `Peak flow (${units.flow})`,
+      xDecimals: 0,
+      leftLabel: `Bed area (${units.area})`,
+      rightLabel: undefined,
+      marker:
+        sizingInputs.peakFlowGpm === null
+          ? null
+          : {
+              x: toDisplayUnits(sizingInputs.peakFlowGpm, "flow", unitSystem),
+              values: [display(calculated.step10BedAreaFt2, "area")],
+            },
+    },
+  ];
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3v18h18M7 15l4-4 3 3 5-6" />
+          </svg>
+          Design Charts
+        </CardTitle>
+        <CardDescription>
+          Each chart repeats the full sizing across one input with every other input held at the current design. Hover a chart to
+          read values; the dashed line marks the current design.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {charts.map((chart) => (
+          <section key={chart.title} className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700">{chart.title}</h3>
+            {chart.xValues.length > 1 && hasValues(chart.series) ? (
+              <LineChart
+                xValues={chart.xValues}
+                xLabel={chart.xLabel}
+                xDecimals={chart.xDecimals}
+                series={chart.series}
+                leftLabel={chart.leftLabel}
+                rightLabel={chart.rightLabel}
+                marker={chart.marker}
+              />
+            ) : (
+              <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                Complete the design inputs to plot this chart.
+              </p>
+            )}
+          </section>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,309 @@
+import { Fragment } from "react";
+import { Button } from "@/components/ui/button";
+import type { StepDefinition } from "@/components/stepDefinitions";
+import type { OperatingCostProjection } from "@/lib/economics";
+import type { ExistingSystemEvaluation } from "@/lib/evaluation";
+import { formatCurrency, formatQuantity, formatResult, formatTankSize } from "@/lib/format";
+import type { FormValues } from "@/lib/form";
+import { describeInputs } from "@/lib/inputSummary";
+import { describeLeakageShortfall } from "@/lib/leakage";
+import type { MeteredRegeneration } from "@/lib/metered";
+import type { DesignDetails } from "@/lib/projectLibrary";
+import { SYSTEM_CONFIG_LABELS, type SizingResult } from "@/lib/sizing";
+import { type Quantity, UNIT_SYSTEM_LABELS, type UnitSystem } from "@/lib/units";
+
+type DesignReportProps = {
+  details: DesignDetails;
+  form: FormValues;
+  calculated: SizingResult;
+  operatingCosts: OperatingCostProjection;
+  /** Present when regeneration is metered. */
+  meteredRegeneration: MeteredRegeneration | null;
+  /** Present when evaluating an installed system. */
+  evaluation: ExistingSystemEvaluation | null;
+  evaluationFindings: string[];
+  steps: StepDefinition[];
+  onClose: () => void;
+};
+
+/** Collects the design warnings for the report, listing each distinct blocking message once with the steps it stops. */
+function collectWarnings(
+  calculated: SizingResult,
+  operatingCosts: OperatingCostProjection,
+  meteredRegeneration: MeteredRegeneration | null,
+  steps: StepDefinition[],
+  unitSystem: UnitSystem,
+): string[] {
+  const warnings: string[] = [];
+  if (calculated.requiredInputMissing) {
+    warnings.push("Required inputs are missing, so some results could not be calculated.");
+  }
+  if (calculated.waterAnalysis?.balanceMessage) {
+    warnings.push(calculated.waterAnalysis.balanceMessage);
+  }
+  const leakageShortfall = describeLeakageShortfall(calculated, unitSystem);
+  if (leakageShortfall) {
+    warnings.push(leakageShortfall);
+  }
+  if (calculated.serviceLoadingError) {
+    warnings.push(calculated.serviceLoadingError);
+  }
+
+  for (const step of steps) {
+    for (const violation of step.warnings ?? []) {
+      warnings.push(`${violation.severity === "critical" ? "Critical" : "Warning"} (Step ${step.number}): ${violation.message}`);
+    }
+  }
+
+  const stepsByMessage = new Map<string, number[]>();
+  for (const step of steps) {
+    if (step.blockedMessage) {
+      stepsByMessage.set(step.blockedMessage, [...(stepsByMessage.get(step.blockedMessage) ?? []), step.number]);
+    }
+  }
+  for (const [message, numbers] of stepsByMessage) {
+    warnings.push(`${message} (Step${numbers.length > 1 ? "s" : ""} ${numbers.join(", ")})`);
+  }
+
+  if (operatingCosts.message) {
+    warnings.push(operatingCosts.message);
+  }
+  if (meteredRegeneration?.message) {
+    warnings.push(meteredRegeneration.message);
+  }
+  if (meteredRegeneration?.timedMessage) {
+    warnings.push(meteredRegeneration.timedMessage);
+  }
+  return warnings;
+}
+
+export function DesignReport({
+  details,
+  form,
+  calculated,
+  operatingCosts,
+  meteredRegeneration,
+  evaluation,
+  evaluationFindings,
+  steps,
+  onClose,
+}: DesignReportProps) {
+  const unitSystem = form.unitSystem;
+  const displayQuantity = (value: number | null, quantity: Quantity, decimals = 2) =>
+    formatQuantity(value, quantity, unitSystem, decimals);
+
+  const inputRows = describeInputs(form);
+  const sections = [...new Set(inputRows.map((row) => row.section))];
+  const warnings = collectWarnings(calculated, operatingCosts, meteredRegeneration, steps, unitSystem);
+
+  const equipment: [string, string][] = [
+    ["System configuration", SYSTEM_CONFIG_LABELS[form.systemConfig]],
+    ["Tanks installed / in service", calculated.totalUnits === null ? "—" : `${calculated.totalUnits} / ${calculated.unitsInService}`],
+    ["Selected vessel", calculated.step13Tank ? formatTankSize(calculated.step13Tank.diameterIn, calculated.step13Tank.sideShellIn, unitSystem) : "—"],
+    ["Resin per tank", displayQuantity(calculated.step7ResinFt3, "resinVolume", 2)],
+    ["Total resin (all tanks)", displayQuantity(calculated.totalResinFt3, "resinVolume", 2)],
+    ["Bed depth", displayQuantity(calculated.step13BedDepthIn, "length", 1)],
+    ["Freeboard", displayQuantity(calculated.step13FreeboardIn, "length", 1)],
+    ["Actual service loading rate", displayQuantity(calculated.step13ServiceLoadingRate, "loadingRate", 2)],
+    ["Salt per regeneration", displayQuantity(calculated.step8SaltLbsPerRegen, "saltMass", 2)],
+    ["Brine tank", calculated.step22BrineTank ? formatTankSize(calculated.step22BrineTank.diameterIn, calculated.step22BrineTank.heightIn, unitSystem) : "—"],
+    ["Brine tank salt storage", displayQuantity(calculated.step22SaltCapacityLbs, "saltMass", 0)],
+    ["Days of salt autonomy", formatResult(calculated.step22DaysOfAutonomy, "days", 1)],
+    ["Backwash flow", displayQuantity(calculated.step12BackwashFlowGpm, "flow", 2)],
+    ["Peak drain flow", displayQuantity(calculated.step19PeakDrainGpm, "flow", 2)],
+    ["Regeneration time", formatResult(calculated.step19RegenerationMinutes, "minutes", 0)],
+    ["Wastewater per regeneration", displayQuantity(calculated.step19WastewaterGallons, "waterVolume", 0)],
+    ["Annual salt", displayQuantity(operatingCosts.annualSaltTons, "saltMassLarge", 2)],
+    ["Annual operating cost", formatCurrency(operatingCosts.annualOperatingCost)],
+  ];
+  if (meteredRegeneration) {
+    equipment.push(
+      ["Meter set point per tank", displayQuantity(meteredRegeneration.setPointGallons, "waterVolumeLarge", 0)],
+      ["Regenerations per week, average", formatResult(meteredRegeneration.regenerationsPerWeekAverage, "regenerations", 1)],
+      ["Regenerations per week, peak day", formatResult(meteredRegeneration.regenerationsPerWeekPeak, "regenerations", 1)],
+      ["Salt saved compared with a time clock", formatResult(meteredRegeneration.saltSavingsPercent, "%", 0)],
+    );
+  }
+
+  const evaluationRows: [string, string][] = evaluation
+    ? [
+        ["Salt dose", displayQuantity(evaluation.saltDose, "saltDose", 1)],
+        ["Capacity per regeneration, per tank", displayQuantity(evaluation.grainsPerRegen, "grains", 0)],
+        ["True days between regenerations", formatResult(evaluation.trueDaysBetweenRegen, "days", 1)],
+        ["Actual service loading", displayQuantity(evaluation.serviceLoadingRate, "loadingRate", 2)],
+        ["Bed depth", displayQuantity(evaluation.bedDepthIn, "length", 1)],
+        ["Backwash flow needed", displayQuantity(evaluation.backwashFlowGpm, "flow", 1)],
+        ["Annual salt at current setting", displayQuantity(evaluation.annualSaltTons, "saltMassLarge", 2)],
+        ["Lowest salt setting for this interval", displayQuantity(evaluation.recommendedSaltLbsPerRegen, "saltMass", 1)],
+      ]
+    : [];
+
+  return (
+    <main className="relative mx-auto min-h-screen max-w-4xl px-3 py-5 sm:px-4 md:px-6 lg:py-8 print:max-w-none print:p-0">
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:justify-between print:hidden">
+        <Button onClick={onClose} variant="outline" className="w-full sm:w-auto">
+          Back to calculator
+        </Button>
+        <Button onClick={() => window.print()} className="w-full sm:w-auto">
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <article className="space-y-8 rounded-lg border bg-white p-6 text-sm shadow-sm md:p-10 print:rounded-none print:border-0 print:p-0 print:shadow-none">
+        <header className="space-y-4 border-b-2 border-slate-800 pb-4">
+          <div>
+            <p className="text-xs font-medium uppercase tracking-wider text-cyan-700">Water Softener Design Report</p>
+            <h1 className="mt-1 text-2xl font-bold tracking-tight">{details.name.trim() || "Untitled design"}</h1>
+          </div>
+          <dl className="grid gap-x-6 gap-y-1 sm:grid-cols-2">
+            {[
+              ["Customer", details.customer],
+              ["Site", details.site],
+              ["Date", details.date],
+              ["Unit system", UNIT_SYSTEM_LABELS[unitSystem]],
+            ].map(([label, value]) => (
+              <div key={label} className="flex gap-2">
+                <dt className="w-24 shrink-0 text-muted-foreground">{label}</dt>
+                <dd className="font-medium">{value || "—"}</dd>
+              </div>
+            ))}
+          </dl>
+          {details.notes.trim() && <p className="whitespace-pre-line text-muted-foreground">{details.notes}</p>}
+        </header>
+
+        <section className="space-y-3">
+          <h2 className="text-base font-semibold">Warnings</h2>
+          {warnings.length === 0 ? (
+            <p className="text-muted-foreground">No calculation step is blocked.</p>
+          ) : (
+            <ul className="list-disc space-y-1 pl-5 text-destructive">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {evaluation && (
+          <section className="space-y-3 break-inside-avoid">
+            <h2 className="text-base font-semibold">Existing System Evaluation</h2>
+            {evaluation.message && <p className="text-muted-foreground">{evaluation.message}</p>}
+            <table className="w-full text-left">
+              <tbody>
+                {evaluationRows.map(([label, value]) => (
+                  <tr key={label} className="border-b last:border-0">
+                    <th className="w-1/2 py-1.5 pr-3 font-normal text-muted-foreground">{label}</th>
+                    <td className="py-1.5 font-medium">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {evaluationFindings.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5">
+                {evaluationFindings.map((finding) => (
+                  <li key={finding}>{finding}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        <section className="space-y-3 break-inside-avoid">
+          <h2 className="text-base font-semibold">{evaluation ? "New Design for Comparison" : "Selected Equipment"}</h2>
+          <table className="w-full text-left">
+            <tbody>
+              {equipment.map(([label, value]) => (
+                <tr key={label} className="border-b last:border-0">
+                  <th className="w-1/2 py-1.5 pr-3 font-normal text-muted-foreground">{label}</th>
+                  <td className="py-1.5 font-medium">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-base font-semibold">Design Inputs</h2>
+          <table className="w-full text-left">
+            <tbody>
+              {sections.map((section) => (
+                <Fragment key={section}>
+                  <tr>
+                    <th colSpan={3} className="pb-1 pt-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      {section}
+                    </th>
+                  </tr>
+                  {inputRows
+                    .filter((row) => row.section === section)
+                    .map((row) => (
+                      <tr key={row.label} className="border-b">
+                        <td className="w-1/2 py-1.5 pr-3">{row.label}</td>
+                        <td className="py-1.5 pr-3 font-medium">{row.value}</td>
+                        <td className="py-1.5 text-muted-foreground">{row.unit}</td>
+                      </tr>
+                    ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-base font-semibold">Calculation Steps</h2>
+          {steps.map((step) => (
+            <div key={step.number} className="break-inside-avoid space-y-1 border-l-2 border-cyan-600 pl-3">
+              <h3 className="font-semibold">
+                Step {step.number}. {step.title}
+              </h3>
+              <div className="space-y-1 text-muted-foreground [&_p]:m-0">{step.formula}</div>
+              {step.blockedMessage ? (
+                <p className="font-medium text-destructive">{step.blockedMessage}</p>
+              ) : (
+                <p className="font-semibold">Result: {step.result}</p>
+              )}
+            </div>
+          ))}
+        </section>
+
+        <section className="break-inside-avoid space-y-4">
+          <h2 className="text-base font-semibold">Revision and Approval</h2>
+          <table className="w-full border text-left">
+            <thead>
+              <tr className="border-b bg-muted/40 text-xs uppercase tracking-wide text-muted-foreground">
+                <th className="w-16 border-r px-2 py-1.5 font-medium">Rev</th>
+                <th className="w-28 border-r px-2 py-1.5 font-medium">Date</th>
+                <th className="border-r px-2 py-1.5 font-medium">Description</th>
+                <th className="w-20 px-2 py-1.5 font-medium">By</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="border-r px-2 py-1.5">0</td>
+                <td className="border-r px-2 py-1.5">{details.date}</td>
+                <td className="border-r px-2 py-1.5">Issued for review</td>
+                <td className="px-2 py-1.5" />
+              </tr>
+              {[1, 2].map((row) => (
+                <tr key={row} className="h-8 border-b last:border-0">
+                  <td className="border-r" />
+                  <td className="border-r" />
+                  <td className="border-r" />
+                  <td />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="grid gap-6 pt-4 sm:grid-cols-3 print:grid-cols-3">
+            {["Prepared by", "Checked by", "Approved by"].map((role) => (
+              <div key={role} className="space-y-6">
+                <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{role}</p>
+                <div className="border-b border-slate-800" />
+                <p className="text-xs text-muted-foreground">Signature / Date</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,83 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatNumber, formatQuantity, formatResult } from "@/lib/format";
+import type { ExistingSystemEvaluation } from "@/lib/evaluation";
+import { toDisplayUnits, type UnitSystem } from "@/lib/units";
+
+type ExistingSystemCardProps = {
+  evaluation: ExistingSystemEvaluation;
+  findings: string[];
+  unitSystem: UnitSystem;
+};
+
+export function ExistingSystemCard({ evaluation, findings, unitSystem }: ExistingSystemCardProps) {
+  const saltEfficiency =
+    evaluation.grainsPerLbSalt === null
+      ? "—"
+      : `${formatNumber(
+          toDisplayUnits(evaluation.grainsPerLbSalt, "grains", unitSystem) / toDisplayUnits(1, "saltMass", unitSystem),
+          unitSystem === "metric" ? 2 : 0,
+        )} ${unitSystem === "metric" ? "eq per kg salt" : "grains per lb salt"}`;
+
+  const tiles: [string, string, boolean][] = [
+    ["Salt dose", formatQuantity(evaluation.saltDose, "saltDose", unitSystem, 1), evaluation.saltDose === null],
+    ["Capacity per regeneration, per tank", formatQuantity(evaluation.grainsPerRegen, "grains", unitSystem, 0), evaluation.grainsPerRegen === null],
+    [
+      "True days between regenerations",
+      formatResult(evaluation.trueDaysBetweenRegen, "days", 1),
+      evaluation.trueDaysBetweenRegen === null,
+    ],
+    [
+      "Actual service loading",
+      formatQuantity(evaluation.serviceLoadingRate, "loadingRate", unitSystem, 2),
+      evaluation.serviceLoadingRate === null,
+    ],
+    ["Salt efficiency", saltEfficiency, evaluation.grainsPerLbSalt === null],
+    ["Bed depth", formatQuantity(evaluation.bedDepthIn, "length", unitSystem, 1), evaluation.bedDepthIn === null],
+    ["Backwash flow needed", formatQuantity(evaluation.backwashFlowGpm, "flow", unitSystem, 1), evaluation.backwashFlowGpm === null],
+    ["Annual salt at current setting", formatQuantity(evaluation.annualSaltTons, "saltMassLarge", unitSystem, 2), evaluation.annualSaltTons === null],
+    [
+      "Lowest salt setting for this interval",
+      formatQuantity(evaluation.recommendedSaltLbsPerRegen, "saltMass", unitSystem, 1),
+      evaluation.recommendedSaltLbsPerRegen === null,
+    ],
+  ];
+  const flagged = evaluation.undersized || evaluation.overSalted;
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+          </svg>
+          Existing System Evaluation
+        </CardTitle>
+        <CardDescription>
+          Steps 3–12 run backwards from the installed resin, tank and salt setting. The steps below show what a new design would need.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {evaluation.message && (
+          <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">{evaluation.message}</p>
+        )}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {tiles.map(([label, value, empty]) => (
+            <div key={label} className="rounded-lg border bg-muted/40 p-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+              <p className={`mt-1 text-lg font-semibold ${empty ? "text-muted-foreground/50" : ""}`}>{value}</p>
+            </div>
+          ))}
+        </div>
+        {findings.length > 0 && (
+          <ul
+            className={`space-y-1 rounded-md border px-3 py-2 text-sm ${flagged ? "border-amber-300 bg-amber-50 text-amber-900" : "border-emerald-200 bg-emerald-50 text-emerald-900"}`}
+          >
+            {findings.map((finding) => (
+              <li key={finding}>{finding}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { type MouseEvent, useState } from "react";
+import { formatNumber } from "@/lib/format";
+
+export type ChartSeries = {
+  label: string;
+  /** One value per x value, already in display units; `null` leaves a gap. */
+  values: (number | null)[];
+  axis: "left" | "right";
+  /** Tailwind stroke and fill classes for the line and its markers. */
+  strokeClass: string;
+  fillClass: string;
+  /** Draws horizontal runs between points, for values that change in steps. */
+  stepped?: boolean;
+  decimals: number;
+};
+
+type LineChartProps = {
+  xValues: number[];
+  xLabel: string;
+  xDecimals: number;
+  series: ChartSeries[];
+  leftLabel: string;
+  rightLabel?: string;
+  /** The current design, marked on every series. */
+  marker: { x: number; values: (number | null)[] } | null;
+};
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 16, right: 64, bottom: 44, left: 64 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+/** Round tick values from 0 (or `min`) to at least `max`, about `count` of them. */
+function niceTicks(min: number, max: number, count = 5): number[] {
+  const range = max - min || Math.abs(max) || 1;
+  let step = 10 ** Math.floor(Math.log10(range / count));
+  const error = range / count / step;
+  if (error >= 7.5) {
+    step *= 10;
+  } else if (error >= 3.5) {
+    step *= 5;
+  } else if (error >= 1.5) {
+    step *= 2;
+  }
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick < max + step * 0.999; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function axisTicks(series: ChartSeries[], marker: LineChartProps["marker"], axis: "left" | "right"): number[] {
+  const values: number[] = [];
+  series.forEach((entry, index) => {
+    if (entry.axis !== axis) {
+      return;
+    }
+    values.push(...entry.values.filter((value): value is number => value !== null));
+    const markerValue = marker?.values[index];
+    if (markerValue !== null && markerValue !== undefined) {
+      values.push(markerValue);
+    }
+  });
+  return values.length === 0 ? [] : niceTicks(0, Math.max(...values));
+}
+
+/** Lines over a shared x axis with up to two y axes; hovering shows the values at the nearest x. */
+export function LineChart({ xValues, xLabel, xDecimals, series, leftLabel, rightLabel, marker }: LineChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const xMin = Math.min(...xValues);
+  const xMax = Math.max(...xValues);
+  const xTicks = niceTicks(xMin, xMax, 6).filter((tick) => tick >= xMin && tick <= xMax);
+  const toX = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * PLOT_WIDTH;
+
+  const ticksByAxis = { left: axisTicks(series, marker, "left"), right: axisTicks(series, marker, "right") };
+  const toY = (value: number, axis: "left" | "right") => {
+    const ticks = ticksByAxis[axis];
+    const top = ticks[ticks.length - 1] || 1;
+    return MARGIN.top + PLOT_HEIGHT - (value / top) * PLOT_HEIGHT;
+  };
+
+  const pathFor = (entry: ChartSeries) => {
+    let path = "";
+    let previous: [number, number] | null = null;
+    entry.values.forEach((value, index) => {
+      if (value === null) {
+        previous = null;
+        return;
+      }
+      const point: [number, number] = [toX(xValues[index]), toY(value, entry.axis)];
+      if (!previous) {
+        path += `M${point[0]},${point[1]}`;
+      } else if (entry.stepped) {
+        path += `H${point[0]}V${point[1]}`;
+      } else {
+        path += `L${point[0]},${point[1]}`;
+      }
+      previous = point;
+    });
+    return path;
+  };
+
+  const handleMove = (event: MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    let nearest = 0;
+    xValues.forEach((value, index) => {
+      if (Math.abs(toX(value) - x) < Math.abs(toX(xValues[nearest]) - x)) {
+        nearest = index;
+      }
+    });
+    setHoverIndex(nearest);
+  };
+
+  const hoverX = hoverIndex === null ? null : xValues[hoverIndex];
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full"
+        role="img"
+        aria-label={`${series.map((entry) => entry.label).join(" and ")} against ${xLabel}`}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {ticksByAxis.left.map((tick) => (
+          <g key={`left-${tick}`}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={toY(tick, "left")} y2={toY(tick, "left")} className="stroke-slate-200" />
+            <text x={MARGIN.left - 6} y={toY(tick, "left")} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+              {formatNumber(tick, 2)}
+            </text>
+          </g>
+        ))}
+        {ticksByAxis.right.map((tick) => (
+          <text
+            key={`right-${tick}`}
+            x={WIDTH - MARGIN.right + 6}
+            y={toY(tick, "right")}
+            dominantBaseline="middle"
+            className="fill-slate-500 text-[11px]"
+          >
+            {formatNumber(tick, 2)}
+          </text>
+        ))}
+        {xTicks.map((tick) => (
+          <text key={`x-${tick}`} x={toX(tick)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" className="fill-slate-500 text-[11px]">
+            {formatNumber(tick, xDecimals)}
+          </text>
+        ))}
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={MARGIN.top + PLOT_HEIGHT}
+          y2={MARGIN.top + PLOT_HEIGHT}
+          className="stroke-slate-400"
+        />
+        <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 6} textAnchor="middle" className="fill-slate-600 text-[12px]">
+          {xLabel}
+        </text>
+        <text
+          transform={`translate(14 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+          textAnchor="middle"
+          className="fill-slate-600 text-[12px]"
+        >
+          {leftLabel}
+        </text>
+        {rightLabel && (
+          <text
+            transform={`translate(${WIDTH - 10} ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(90)`}
+            textAnchor="middle"
+            className="fill-slate-600 text-[12px]"
+          >
+            {rightLabel}
+          </text>
+        )}
+
+        {series.map((entry) => (
+          <path key={entry.label} d={pathFor(entry)} fill="none" strokeWidth={2} className={entry.strokeClass} />
+        ))}
+
+        {marker && marker.x >= xMin && marker.x <= xMax && (
+          <g>
+            <line
+              x1={toX(marker.x)}
+              x2={toX(marker.x)}
+              y1={MARGIN.top}
+              y2={MARGIN.top + PLOT_HEIGHT}
+              strokeDasharray="4 3"
+              className="stroke-slate-500"
+            />
+            {series.map((entry, index) => {
+              const value = marker.values[index];
+              return value === null ? null : (
+                <circle
+                  key={entry.label}
+                  cx={toX(marker.x)}
+                  cy={toY(value, entry.axis)}
+                  r={5}
+                  strokeWidth={2}
+                  className={`fill-white ${entry.strokeClass}`}
+                />
+              );
+            })}
+            <text x={toX(marker.x) + 4} y={MARGIN.top + 10} className="fill-slate-600 text-[11px]">
+              Current design
+            </text>
+          </g>
+        )}
+
+        {hoverIndex !== null && hoverX !== null && (
+          <g pointerEvents="none">
+            <line x1={toX(hoverX)} x2={toX(hoverX)} y1={MARGIN.top} y2={MARGIN.top + PLOT_HEIGHT} className="stroke-cyan-600/40" />
+            {series.map((entry) => {
+              const value = entry.values[hoverIndex];
+              return value === null ? null : (
+                <circle key={entry.label} cx={toX(hoverX)} cy={toY(value, entry.axis)} r={3.5} className={entry.fillClass} />
+              );
+            })}
+          </g>
+        )}
+      </svg>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {series.map((entry, index) => {
+          const value = hoverIndex === null ? null : entry.values[hoverIndex];
+          return (
+            <span key={entry.label} className="flex items-center gap-1.5">
+              <span className={`h-0.5 w-4 ${entry.fillClass.replace("fill-", "bg-")}`} />
+              {entry.label}
+              {hoverIndex !== null && (
+                <span className="font-semibold text-foreground">: {value === null ? "—" : formatNumber(value, entry.decimals)}</span>
+              )}
+              {hoverIndex === null && marker && marker.values[index] !== null && (
+                <span>(current {formatNumber(marker.values[index] ?? 0, entry.decimals)})</span>
+              )}
+            </span>
+          );
+        })}
+        {hoverX !== null && (
+          <span>
+            {xLabel}: <span className="font-semibold text-foreground">{formatNumber(hoverX, xDecimals)}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
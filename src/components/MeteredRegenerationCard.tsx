@@ -0,0 +1,84 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatNumber, formatQuantity, formatResult, formatTankSize } from "@/lib/format";
+import type { MeteredRegeneration } from "@/lib/metered";
+import type { UnitSystem } from "@/lib/units";
+
+type MeteredRegenerationCardProps = {
+  analysis: MeteredRegeneration;
+  unitSystem: UnitSystem;
+};
+
+export function MeteredRegenerationCard({ analysis, unitSystem }: MeteredRegenerationCardProps) {
+  const tiles: [string, string, boolean][] = [
+    [
+      "Meter set point per tank",
+      formatQuantity(analysis.setPointGallons, "waterVolumeLarge", unitSystem, 0),
+      analysis.setPointGallons === null,
+    ],
+    [
+      "Regenerations per week at average use",
+      formatResult(analysis.regenerationsPerWeekAverage, "regenerations", 1),
+      analysis.regenerationsPerWeekAverage === null,
+    ],
+    [
+      "Regenerations per week on the peak day",
+      formatResult(analysis.regenerationsPerWeekPeak, "regenerations", 1),
+      analysis.regenerationsPerWeekPeak === null,
+    ],
+    [
+      "Annual salt, metered",
+      formatQuantity(analysis.meteredAnnualSaltTons, "saltMassLarge", unitSystem, 2),
+      analysis.meteredAnnualSaltTons === null,
+    ],
+    [
+      "Annual salt, time clock",
+      formatQuantity(analysis.timedAnnualSaltTons, "saltMassLarge", unitSystem, 2),
+      analysis.timedAnnualSaltTons === null,
+    ],
+    [
+      "Salt saved by metering",
+      analysis.saltSavingsPercent === null ? "—" : `${formatNumber(analysis.saltSavingsPercent, 0)}%`,
+      analysis.saltSavingsPercent === null,
+    ],
+  ];
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+          Metered Regeneration
+        </CardTitle>
+        <CardDescription>
+          {analysis.tank
+            ? `Meter set for the ${formatTankSize(analysis.tank.diameterIn, analysis.tank.sideShellIn, unitSystem)} vessel with ${formatQuantity(analysis.resinFt3, "resinVolume", unitSystem, 2)} of resin.`
+            : "Meter set point, regeneration frequency and salt compared with a time clock."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {analysis.message && (
+          <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">{analysis.message}</p>
+        )}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {tiles.map(([label, value, empty]) => (
+            <div key={label} className="rounded-lg border bg-muted/40 p-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+              <p className={`mt-1 text-lg font-semibold ${empty ? "text-muted-foreground/50" : ""}`}>{value}</p>
+            </div>
+          ))}
+        </div>
+        {analysis.timedDaysBetweenRegen !== null && (
+          <p className="text-xs text-muted-foreground">
+            For the same tanks, a time clock would have to regenerate every {formatResult(analysis.timedDaysBetweenRegen, "days", 0)} to
+            cover the peak day; the meter regenerates only when the set point has been used.
+          </p>
+        )}
+        {analysis.timedMessage && (
+          <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">{analysis.timedMessage}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
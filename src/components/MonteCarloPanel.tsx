@@ -0,0 +1,356 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { formatNumber, formatQuantity, formatTankSize } from "@/lib/format";
+import { convertInputValue, parseInputNumber } from "@/lib/form";
+import {
+  type Distribution,
+  DISTRIBUTION_LABELS,
+  isValidRange,
+  MAX_ITERATIONS,
+  type MonteCarloRequest,
+  type MonteCarloResult,
+  percentile,
+  type UncertainInput,
+  type UncertainRange,
+} from "@/lib/monteCarlo";
+import type { SizingInputs, SizingResult } from "@/lib/sizing";
+import { STANDARD_TANKS } from "@/lib/tanks";
+import { fromDisplayUnits, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+type MonteCarloPanelProps = {
+  sizingInputs: SizingInputs;
+  calculated: SizingResult;
+  unitSystem: UnitSystem;
+};
+
+/** Form text for one range, in the display unit system like every other entry. */
+type RangeEntry = {
+  distribution: Distribution;
+  min: string;
+  likely: string;
+  max: string;
+  mean: string;
+  stdDev: string;
+};
+
+type RangeField = Exclude<keyof RangeEntry, "distribution">;
+
+const UNCERTAIN_INPUT_LABELS: Record<UncertainInput, string> = {
+  hardness: "Hardness",
+  iron: "Iron",
+  manganese: "Manganese",
+  gallonsPerDay: "Water Use",
+};
+
+const RANGE_FIELDS: Record<Distribution, [RangeField, string][]> = {
+  triangular: [
+    ["min", "Min"],
+    ["likely", "Likely"],
+    ["max", "Max"],
+  ],
+  normal: [
+    ["mean", "Mean"],
+    ["stdDev", "Std-dev"],
+  ],
+};
+
+const REPORTED_PERCENTILES = [50, 90, 95];
+const DEFAULT_ITERATIONS = "2000";
+const DEFAULT_CONFIDENCE = "90";
+
+function createRange(): RangeEntry {
+  return { distribution: "triangular", min: "", likely: "", max: "", mean: "", stdDev: "" };
+}
+
+export function MonteCarloPanel({ sizingInputs, calculated, unitSystem }: MonteCarloPanelProps) {
+  const [ranges, setRanges] = useState<Record<UncertainInput, RangeEntry>>(() => ({
+    hardness: createRange(),
+    iron: createRange(),
+    manganese: createRange(),
+    gallonsPerDay: createRange(),
+  }));
+  const [iterationsText, setIterationsText] = useState(DEFAULT_ITERATIONS);
+  const [confidenceText, setConfidenceText] = useState(DEFAULT_CONFIDENCE);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [resultInputs, setResultInputs] = useState<SizingInputs | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entryUnitSystem, setEntryUnitSystem] = useState(unitSystem);
+  const workerRef = useRef<Worker | null>(null);
+  const units = UNIT_LABELS[unitSystem];
+
+  // Water use ranges are typed in display units, so re-express them when the unit system changes.
+  if (entryUnitSystem !== unitSystem) {
+    const water = ranges.gallonsPerDay;
+    const convert = (value: string) => convertInputValue(value, "dailyVolume", entryUnitSystem, unitSystem);
+    setRanges({
+      ...ranges,
+      gallonsPerDay: {
+        ...water,
+        min: convert(water.min),
+        likely: convert(water.likely),
+        max: convert(water.max),
+        mean: convert(water.mean),
+        stdDev: convert(water.stdDev),
+      },
+    });
+    setEntryUnitSystem(unitSystem);
+  }
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const unitFor = (input: UncertainInput) => {
+    if (input === "gallonsPerDay") {
+      return units.dailyVolume;
+    }
+    if (input === "hardness") {
+      return sizingInputs.waterAnalysis ? "mg/L as CaCO₃" : sizingInputs.hardnessUnits;
+    }
+    return "ppm";
+  };
+
+  const updateRange = (input: UncertainInput, changes: Partial<RangeEntry>) => {
+    setRanges((current) => ({ ...current, [input]: { ...current[input], ...changes } }));
+  };
+
+  /** Ranges in engine units; inputs left blank are held at the design value. */
+  const parseRanges = (): MonteCarloRequest["ranges"] | string => {
+    const parsed: MonteCarloRequest["ranges"] = {};
+    for (const input of Object.keys(ranges) as UncertainInput[]) {
+      const entry = ranges[input];
+      const fields = RANGE_FIELDS[entry.distribution];
+      if (fields.every(([field]) => entry[field].trim() === "")) {
+        continue;
+      }
+      const values = fields.map(([field]) => parseInputNumber(entry[field]));
+      if (values.some((value) => value === null)) {
+        return `Complete every ${UNCERTAIN_INPUT_LABELS[input].toLowerCase()} value or leave them all blank.`;
+      }
+      const toEngine = (value: number) => (input === "gallonsPerDay" ? fromDisplayUnits(value, "dailyVolume", unitSystem) : value);
+      const [first, second, third] = (values as number[]).map(toEngine);
+      const range: UncertainRange =
+        entry.distribution === "triangular"
+          ? { distribution: "triangular", min: first, likely: second, max: third, mean: 0, stdDev: 0 }
+          : { distribution: "normal", min: 0, likely: 0, max: 0, mean: first, stdDev: second };
+      if (!isValidRange(range)) {
+        return entry.distribution === "triangular"
+          ? `${UNCERTAIN_INPUT_LABELS[input]} needs 0 ≤ min ≤ likely ≤ max.`
+          : `${UNCERTAIN_INPUT_LABELS[input]} needs a mean and std-dev of at least 0.`;
+      }
+      parsed[input] = range;
+    }
+    return parsed;
+  };
+
+  const run = () => {
+    const parsedRanges = parseRanges();
+    const iterations = parseInputNumber(iterationsText);
+    if (typeof parsedRanges === "string") {
+      setError(parsedRanges);
+      return;
+    }
+    if (iterations === null || iterations < 1 || iterations > MAX_ITERATIONS) {
+      setError(`Runs must be between 1 and ${formatNumber(MAX_ITERATIONS, 0)}.`);
+      return;
+    }
+
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("../lib/monteCarlo.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    const finish = () => {
+      worker.terminate();
+      workerRef.current = null;
+      setRunning(false);
+    };
+    worker.onmessage = (event: MessageEvent<MonteCarloResult>) => {
+      setResult(event.data);
+      setResultInputs(sizingInputs);
+      finish();
+    };
+    worker.onerror = () => {
+      setError("The simulation stopped unexpectedly. Try fewer runs.");
+      finish();
+    };
+
+    setError(null);
+    setRunning(true);
+    const request: MonteCarloRequest = { inputs: sizingInputs, ranges: parsedRanges, iterations };
+    worker.postMessage(request);
+  };
+
+  const confidence = parseInputNumber(confidenceText);
+  const validConfidence = confidence !== null && confidence > 0 && confidence <= 100 ? confidence : null;
+  const confidenceResin = result && validConfidence !== null ? percentile(result.resinFt3, validConfidence) : null;
+  const confidenceDiameter = result && validConfidence !== null ? percentile(result.tankDiameterIn, validConfidence) : null;
+  // Catalog diameters are unique, so the vessel at a percentile is the one with that diameter.
+  const confidenceTank = STANDARD_TANKS.find((tank) => tank.diameterIn === confidenceDiameter) ?? null;
+  const formatTankDiameter = (diameterIn: number | null) =>
+    diameterIn === Infinity ? "Beyond catalog" : formatQuantity(diameterIn, "length", unitSystem, 0);
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 19h16M6 16v-3m4 3V8m4 8v-5m4 5V5" />
+          </svg>
+          Uncertainty (Monte Carlo)
+        </CardTitle>
+        <CardDescription>
+          Draws hardness, iron, manganese and water use from their ranges and repeats the sizing for each draw. Leave a range blank to hold
+          it at the design value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(Object.keys(ranges) as UncertainInput[]).map((input) => {
+          const entry = ranges[input];
+          return (
+            <div key={input} className="space-y-2 rounded-lg border border-input bg-muted/40 p-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <p className="text-sm font-medium">
+                  {UNCERTAIN_INPUT_LABELS[input]} ({unitFor(input)})
+                </p>
+                <Select
+                  aria-label={`${UNCERTAIN_INPUT_LABELS[input]} distribution`}
+                  value={entry.distribution}
+                  onChange={(event) => updateRange(input, { distribution: event.target.value as Distribution })}
+                  className="sm:w-48"
+                >
+                  {(Object.keys(DISTRIBUTION_LABELS) as Distribution[]).map((distribution) => (
+                    <option key={distribution} value={distribution}>
+                      {DISTRIBUTION_LABELS[distribution]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className={`grid gap-2 ${entry.distribution === "triangular" ? "grid-cols-3" : "grid-cols-2"}`}>
+                {RANGE_FIELDS[entry.distribution].map(([field, label]) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`monteCarlo-${input}-${field}`} className="text-xs text-muted-foreground">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`monteCarlo-${input}-${field}`}
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={entry[field]}
+                      onChange={(event) => updateRange(input, { [field]: event.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+        {!sizingInputs.useCompensation && (
+          <p className="text-xs text-muted-foreground">Iron and manganese only change the sizing with compensated hardness turned on.</p>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="monteCarloRuns">Simulated Sizings</Label>
+            <Input
+              id="monteCarloRuns"
+              type="number"
+              min="1"
+              max={MAX_ITERATIONS}
+              step="1"
+              value={iterationsText}
+              onChange={(event) => setIterationsText(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monteCarloConfidence">Size for Confidence Level (%)</Label>
+            <Input
+              id="monteCarloConfidence"
+              type="number"
+              min="1"
+              max="100"
+              step="any"
+              value={confidenceText}
+              onChange={(event) => setConfidenceText(event.target.value)}
+            />
+          </div>
+        </div>
+        <Button onClick={run} disabled={running} className="w-full sm:w-auto">
+          {running ? "Running…" : "Run simulation"}
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <>
+            {resultInputs !== sizingInputs && (
+              <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                The design has changed since this run. Run the simulation again to update the results.
+              </p>
+            )}
+            {result.completedRuns === 0 ? (
+              <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                No run reached Steps 7 and 11. Complete the design inputs and run again.
+              </p>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b text-xs uppercase tracking-wide text-muted-foreground">
+                        <th className="py-2 pr-3 font-medium">Result</th>
+                        <th className="py-2 pr-3 font-medium">Single point</th>
+                        {REPORTED_PERCENTILES.map((percent) => (
+                          <th key={percent} className="py-2 pr-3 font-medium">
+                            P{percent}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr className="border-b">
+                        <td className="py-2 pr-3 font-medium">Resin volume per tank</td>
+                        <td className="py-2 pr-3">{formatQuantity(calculated.step7ResinFt3, "resinVolume", unitSystem, 2)}</td>
+                        {REPORTED_PERCENTILES.map((percent) => (
+                          <td key={percent} className="py-2 pr-3">
+                            {formatQuantity(percentile(result.resinFt3, percent), "resinVolume", unitSystem, 2)}
+                          </td>
+                        ))}
+                      </tr>
+                      <tr>
+                        <td className="py-2 pr-3 font-medium">Catalog tank diameter</td>
+                        <td className="py-2 pr-3">{formatTankDiameter(calculated.step13Tank?.diameterIn ?? null)}</td>
+                        {REPORTED_PERCENTILES.map((percent) => (
+                          <td key={percent} className="py-2 pr-3">
+                            {formatTankDiameter(percentile(result.tankDiameterIn, percent))}
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {[
+                    ["Resin at confidence", formatQuantity(confidenceResin, "resinVolume", unitSystem, 2)],
+                    ["Tank diameter at confidence", formatTankDiameter(confidenceDiameter)],
+                    ["Catalog tank at confidence", confidenceTank ? formatTankSize(confidenceTank.diameterIn, confidenceTank.sideShellIn, unitSystem) : confidenceDiameter === Infinity ? "Beyond catalog" : "—"],
+                  ].map(([label, value]) => (
+                    <div key={label} className="rounded-lg border bg-muted/40 p-3">
+                      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+                      <p className={`mt-1 text-lg font-semibold ${value === "—" ? "text-muted-foreground/50" : ""}`}>{value}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatNumber(result.completedRuns, 0)} of {formatNumber(result.iterations, 0)} runs completed. Each run picks its own
+                  catalog vessel for its resin and bed area, so the tank at a confidence level holds that share of runs.
+                </p>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+import { type ChangeEvent, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { type ImportedDesign, parseDesignFile } from "@/lib/designFile";
+import type { FormValues } from "@/lib/form";
+import {
+  createSavedDesign,
+  type DesignDetails,
+  duplicateSavedDesign,
+  loadSavedDesigns,
+  type SavedDesign,
+  storeSavedDesigns,
+} from "@/lib/projectLibrary";
+
+type ProjectLibraryProps = {
+  form: FormValues;
+  details: DesignDetails;
+  onDetailsChange: (details: DesignDetails) => void;
+  onOpen: (design: SavedDesign) => void;
+  onExport: () => void;
+  onImport: (design: ImportedDesign) => void;
+};
+
+export function ProjectLibrary({ form, details, onDetailsChange, onOpen, onExport, onImport }: ProjectLibraryProps) {
+  const [designs, setDesigns] = useState<SavedDesign[]>(loadSavedDesigns);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  const [storageError, setStorageError] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeDesign = designs.find((design) => design.id === activeId) ?? null;
+
+  const commit = (next: SavedDesign[]) => {
+    setDesigns(next);
+    setStorageError(!storeSavedDesigns(next));
+  };
+
+  const updateDetail = <K extends keyof DesignDetails>(key: K, value: DesignDetails[K]) => {
+    onDetailsChange({ ...details, [key]: value });
+  };
+
+  const saveAsNew = () => {
+    const design = createSavedDesign(details, form);
+    commit([design, ...designs]);
+    setActiveId(design.id);
+  };
+
+  const updateActive = () => {
+    if (!activeDesign) {
+      return;
+    }
+    const updated = { ...createSavedDesign(details, form), id: activeDesign.id };
+    commit(designs.map((design) => (design.id === activeDesign.id ? updated : design)));
+  };
+
+  const openDesign = (design: SavedDesign) => {
+    setActiveId(design.id);
+    onOpen(design);
+  };
+
+  const startRename = (design: SavedDesign) => {
+    setRenamingId(design.id);
+    setRenameDraft(design.name);
+  };
+
+  const finishRename = () => {
+    const name = renameDraft.trim();
+    if (renamingId && name) {
+      commit(designs.map((design) => (design.id === renamingId ? { ...design, name } : design)));
+    }
+    setRenamingId(null);
+  };
+
+  const duplicateDesign = (design: SavedDesign) => {
+    const index = designs.indexOf(design);
+    const next = [...designs];
+    next.splice(index + 1, 0, duplicateSavedDesign(design));
+    commit(next);
+  };
+
+  const deleteDesign = (design: SavedDesign) => {
+    if (!window.confirm(`Delete "${design.name}"? This cannot be undone.`)) {
+      return;
+    }
+    commit(designs.filter((entry) => entry.id !== design.id));
+    if (activeId === design.id) {
+      setActiveId(null);
+    }
+  };
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const result = parseDesignFile(await file.text());
+    if (result.ok) {
+      setImportError(null);
+      setActiveId(null);
+      onImport(result.design);
+    } else {
+      setImportError(result.error);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+          </svg>
+          Saved Designs
+        </CardTitle>
+        <CardDescription>Named designs are stored in this browser; export a JSON file to archive or share one.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="designName">Design Name</Label>
+          <Input id="designName" value={details.name} onChange={(event) => updateDetail("name", event.target.value)} />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="designCustomer">Customer</Label>
+            <Input
+              id="designCustomer"
+              value={details.customer}
+              onChange={(event) => updateDetail("customer", event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="designSite">Site</Label>
+            <Input id="designSite" value={details.site} onChange={(event) => updateDetail("site", event.target.value)} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="designDate">Date</Label>
+          <Input
+            id="designDate"
+            type="date"
+            value={details.date}
+            onChange={(event) => updateDetail("date", event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="designNotes">Notes</Label>
+          <Textarea id="designNotes" value={details.notes} onChange={(event) => updateDetail("notes", event.target.value)} />
+        </div>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap">
+          <Button onClick={saveAsNew} className="w-full sm:w-auto">
+            Save as new design
+          </Button>
+          {activeDesign && (
+            <Button onClick={updateActive} variant="outline" className="w-full sm:w-auto">
+              Update “{activeDesign.name}”
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap">
+          <Button onClick={onExport} variant="outline" className="w-full sm:w-auto">
+            Export JSON file
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="w-full sm:w-auto">
+            Import JSON file
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importFile} />
+        </div>
+        {importError && <p className="text-sm text-destructive">{importError}</p>}
+        {storageError && (
+          <p className="text-sm text-destructive">Could not save to browser storage. It may be full or disabled.</p>
+        )}
+
+        {designs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved designs yet.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {designs.map((design) => (
+              <li key={design.id} className={`space-y-2 p-3 ${design.id === activeId ? "bg-cyan-50/70" : ""}`}>
+                {renamingId === design.id ? (
+                  <div className="flex gap-2">
+                    <Input
+                      aria-label="New design name"
+                      value={renameDraft}
+                      autoFocus
+                      onChange={(event) => setRenameDraft(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                          finishRename();
+                        } else if (event.key === "Escape") {
+                          setRenamingId(null);
+                        }
+                      }}
+                    />
+                    <Button onClick={finishRename} size="sm" className="h-11">
+                      Save
+                    </Button>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="font-medium">{design.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[design.customer, design.site, design.date].filter(Boolean).join(" · ") || "No customer or site"}
+                    </p>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => openDesign(design)} size="sm" variant="secondary">
+                    Open
+                  </Button>
+                  <Button onClick={() => startRename(design)} size="sm" variant="ghost">
+                    Rename
+                  </Button>
+                  <Button onClick={() => duplicateDesign(design)} size="sm" variant="ghost">
+                    Duplicate
+                  </Button>
+                  <Button onClick={() => deleteDesign(design)} size="sm" variant="ghost" className="text-destructive">
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { formatNumber, formatQuantity } from "@/lib/format";
+import { CUSTOM_RESIN_CAPACITY_FIELDS, type FormValues } from "@/lib/form";
+import { type CustomResin, createCustomResin, loadCustomResins, storeCustomResins } from "@/lib/resinLibrary";
+import { type ResinProfile, SALT_DOSES } from "@/lib/resins";
+import { toDisplayUnits, UNIT_LABELS } from "@/lib/units";
+
+type CustomResinField =
+  | "customResinName"
+  | (typeof CUSTOM_RESIN_CAPACITY_FIELDS)[keyof typeof CUSTOM_RESIN_CAPACITY_FIELDS]
+  | "customResinMaxTemperature"
+  | "customResinServiceRateMin"
+  | "customResinServiceRateMax"
+  | "customResinBackwashRate";
+
+type ResinProfileFieldsProps = {
+  form: FormValues;
+  /** The selected resin; `null` while the custom profile is incomplete. */
+  resin: ResinProfile | null;
+  onChange: (key: CustomResinField, value: string) => void;
+  onLoad: (resin: ResinProfile) => void;
+};
+
+export function ResinProfileFields({ form, resin, onChange, onLoad }: ResinProfileFieldsProps) {
+  const [library, setLibrary] = useState<CustomResin[]>(loadCustomResins);
+  const [selectedId, setSelectedId] = useState("");
+  const [storageError, setStorageError] = useState(false);
+  const units = UNIT_LABELS[form.unitSystem];
+  const isCustom = form.resinType === "custom";
+  const selected = library.find((entry) => entry.id === selectedId) ?? null;
+
+  const commit = (next: CustomResin[]) => {
+    setLibrary(next);
+    setStorageError(!storeCustomResins(next));
+  };
+
+  const saveToLibrary = () => {
+    if (!resin) {
+      return;
+    }
+    const entry = createCustomResin(resin);
+    commit([entry, ...library]);
+    setSelectedId(entry.id);
+  };
+
+  const deleteSelected = () => {
+    if (!selected || !window.confirm(`Delete "${selected.label}" from the resin library? This cannot be undone.`)) {
+      return;
+    }
+    commit(library.filter((entry) => entry.id !== selected.id));
+    setSelectedId("");
+  };
+
+  const renderField = (key: CustomResinField, label: string, unit: string) => (
+    <div key={key} className="space-y-2">
+      <Label htmlFor={key}>
+        {label} ({unit})
+      </Label>
+      <Input
+        id={key}
+        type="number"
+        min="0"
+        step="any"
+        value={form[key]}
+        onChange={(event) => onChange(key, event.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {isCustom && (
+        <>
+          <div className="rounded-lg border border-input bg-muted/40 p-3">
+            <Label htmlFor="customResinLibrary">Custom Resin Library</Label>
+            <div className="mt-2 flex flex-col gap-2 sm:flex-row">
+              <Select id="customResinLibrary" value={selectedId} onChange={(event) => setSelectedId(event.target.value)}>
+                <option value="">{library.length === 0 ? "No saved resins yet" : "Choose a saved resin…"}</option>
+                {library.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.label}
+                  </option>
+                ))}
+              </Select>
+              <div className="flex gap-2">
+                <Button onClick={() => selected && onLoad(selected)} disabled={!selected} size="sm" variant="secondary" className="h-11">
+                  Load
+                </Button>
+                <Button onClick={deleteSelected} disabled={!selected} size="sm" variant="ghost" className="h-11 text-destructive">
+                  Delete
+                </Button>
+              </div>
+            </div>
+            <Button onClick={saveToLibrary} disabled={!resin} variant="outline" className="mt-3 w-full sm:w-auto">
+              Save this profile to the library
+            </Button>
+            {storageError && (
+              <p className="mt-2 text-sm text-destructive">Could not save to browser storage. It may be full or disabled.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customResinName">Resin Name</Label>
+            <Input
+              id="customResinName"
+              placeholder="Manufacturer and product"
+              value={form.customResinName}
+              onChange={(event) => onChange("customResinName", event.target.value)}
+            />
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Working capacity at each salt dose ({units.capacity})
+            </p>
+            <div className="mt-2 grid gap-4 sm:grid-cols-3">
+              {SALT_DOSES.map((dose) =>
+                renderField(
+                  CUSTOM_RESIN_CAPACITY_FIELDS[dose],
+                  `At ${formatNumber(toDisplayUnits(dose, "saltDose", form.unitSystem), 0)}`,
+                  units.saltDose,
+                ),
+              )}
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {renderField("customResinMaxTemperature", "Maximum Temperature", units.temperature)}
+            {renderField("customResinBackwashRate", "Backwash Rate for 50% Expansion at 68 °F", units.loadingRate)}
+            {renderField("customResinServiceRateMin", "Minimum Service Rate", units.loadingRate)}
+            {renderField("customResinServiceRateMax", "Maximum Service Rate", units.loadingRate)}
+          </div>
+        </>
+      )}
+
+      {resin ? (
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{resin.label}</p>
+          <div className="mt-2 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="py-1 pr-3 font-medium">Salt dose ({units.saltDose})</th>
+                  {SALT_DOSES.map((dose) => (
+                    <th key={dose} className="py-1 pr-3 text-right font-medium">
+                      {formatNumber(toDisplayUnits(dose, "saltDose", form.unitSystem), 0)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="py-1 pr-3 text-xs text-muted-foreground">Capacity ({units.capacity})</td>
+                  {SALT_DOSES.map((dose) => (
+                    <td key={dose} className="py-1 pr-3 text-right tabular-nums">
+                      {formatNumber(toDisplayUnits(resin.capacityBySaltDose[dose], "capacity", form.unitSystem), form.unitSystem === "us" ? 0 : 2)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Maximum temperature {formatQuantity(resin.maxTemperatureF, "temperature", form.unitSystem, 0)} · Recommended service rate{" "}
+            {formatNumber(toDisplayUnits(resin.serviceRateMin, "loadingRate", form.unitSystem), 1)}–
+            {formatQuantity(resin.serviceRateMax, "loadingRate", form.unitSystem, 1)}
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Enter every capacity point, the maximum temperature, the service rates and the backwash rate to use this resin.
+        </p>
+      )}
+    </div>
+  );
+}
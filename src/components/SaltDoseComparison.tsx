@@ -0,0 +1,109 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { EconomicsInputs } from "@/lib/economics";
+import { formatNumber, formatQuantity, formatTankSize } from "@/lib/format";
+import { sweepSaltDoses } from "@/lib/saltSweep";
+import type { SizingInputs } from "@/lib/sizing";
+import { toDisplayUnits, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+type SaltDoseComparisonProps = {
+  sizingInputs: SizingInputs;
+  economicsInputs: EconomicsInputs;
+  unitSystem: UnitSystem;
+};
+
+export function SaltDoseComparison({ sizingInputs, economicsInputs, unitSystem }: SaltDoseComparisonProps) {
+  const units = UNIT_LABELS[unitSystem];
+  const [includeInterpolated, setIncludeInterpolated] = useState(false);
+
+  const sweep = useMemo(
+    () => sweepSaltDoses(sizingInputs, economicsInputs, includeInterpolated),
+    [sizingInputs, economicsInputs, includeInterpolated],
+  );
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+          </svg>
+          Salt Dose Comparison
+        </CardTitle>
+        <CardDescription>Full sizing repeated at every salt dose with all other inputs unchanged.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-input bg-muted/40 p-3">
+          <Label htmlFor="includeInterpolated">Include interpolated doses (every 1 lb/ft³ step)?</Label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium">{includeInterpolated ? "ON" : "OFF"}</span>
+            <Switch id="includeInterpolated" checked={includeInterpolated} onCheckedChange={setIncludeInterpolated} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px] text-left text-sm">
+            <thead>
+              <tr className="border-b text-xs uppercase tracking-wide text-muted-foreground">
+                <th className="py-2 pr-3 font-medium">Salt dose ({units.saltDose})</th>
+                <th className="py-2 pr-3 font-medium">Capacity ({units.capacity})</th>
+                <th className="py-2 pr-3 font-medium">Resin per tank</th>
+                <th className="py-2 pr-3 font-medium">Salt per regen</th>
+                <th className="py-2 pr-3 font-medium">{unitSystem === "metric" ? "eq per kg salt" : "Grains per lb salt"}</th>
+                <th className="py-2 pr-3 font-medium">Annual salt</th>
+                <th className="py-2 font-medium">Tank</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sweep.rows.map((row) => {
+                const isMostEfficient = row.saltDose === sweep.mostEfficientDose;
+                const isSmallestVessel = row.saltDose === sweep.smallestVesselDose;
+                const isCurrent = row.saltDose === sizingInputs.saltDose;
+
+                return (
+                  <tr
+                    key={row.saltDose}
+                    className={`border-b last:border-0 ${isMostEfficient || isSmallestVessel ? "bg-emerald-50/70" : ""} ${row.interpolated ? "text-muted-foreground" : ""}`}
+                  >
+                    <td className="py-2 pr-3 font-semibold">
+                      {formatNumber(toDisplayUnits(row.saltDose, "saltDose", unitSystem), 0)}
+                      {isCurrent && <span className="ml-2 text-xs font-medium text-cyan-700">current</span>}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {row.capacityPerFt3 === null
+                        ? "—"
+                        : formatNumber(toDisplayUnits(row.capacityPerFt3, "capacity", unitSystem), unitSystem === "metric" ? 3 : 0)}
+                    </td>
+                    <td className="py-2 pr-3">{formatQuantity(row.resinFt3, "resinVolume", unitSystem, 2)}</td>
+                    <td className="py-2 pr-3">{formatQuantity(row.saltLbsPerRegen, "saltMass", unitSystem, 1)}</td>
+                    <td className="py-2 pr-3">
+                      {row.grainsPerLbSalt === null
+                        ? "—"
+                        : formatNumber(
+                            toDisplayUnits(row.grainsPerLbSalt, "grains", unitSystem) / toDisplayUnits(1, "saltMass", unitSystem),
+                            unitSystem === "metric" ? 2 : 0,
+                          )}
+                      {isMostEfficient && <span className="ml-2 text-xs font-medium text-emerald-700">most efficient</span>}
+                    </td>
+                    <td className="py-2 pr-3">{formatQuantity(row.annualSaltTons, "saltMassLarge", unitSystem, 2)}</td>
+                    <td className="py-2">
+                      {row.tank ? formatTankSize(row.tank.diameterIn, row.tank.sideShellIn, unitSystem) : "—"}
+                      {isSmallestVessel && <span className="ml-2 text-xs font-medium text-emerald-700">smallest vessel</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs leading-relaxed text-muted-foreground">
+          Lower doses regenerate more grains per pound of salt; higher doses recover more capacity and need less resin. Interpolated rows use a
+          straight-line capacity between the table points.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { Fragment, useMemo, useState } from "react";
+import { buildStepDefinitions } from "@/components/stepDefinitions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { validateDesign } from "@/lib/designRules";
+import { projectOperatingCosts } from "@/lib/economics";
+import { formatCurrency, formatQuantity, formatResult } from "@/lib/format";
+import { convertFormUnits, type FormValues, toEconomicsInputs, toSizingInputs } from "@/lib/form";
+import { describeInputs } from "@/lib/inputSummary";
+import { createScenario, loadScenarioWorkspace, type Scenario, type ScenarioWorkspace, storeScenarioWorkspace } from "@/lib/scenarios";
+import { sizeSoftener } from "@/lib/sizing";
+import type { UnitSystem } from "@/lib/units";
+
+type ScenarioComparisonProps = {
+  form: FormValues;
+  unitSystem: UnitSystem;
+  onOpen: (form: FormValues) => void;
+};
+
+type ComparisonRow = {
+  label: string;
+  values: string[];
+  differs: boolean;
+};
+
+type ComparisonGroup = {
+  title: string;
+  rows: ComparisonRow[];
+};
+
+/** Every scenario's inputs, step results and costs as display text in `unitSystem`, one value per scenario. */
+function compareScenarios(scenarios: Scenario[], unitSystem: UnitSystem): ComparisonGroup[] {
+  const analyses = scenarios.map((scenario) => {
+    const form = convertFormUnits(scenario.form, unitSystem);
+    const inputs = toSizingInputs(form);
+    const result = sizeSoftener(inputs);
+    const violations = validateDesign(inputs, result, unitSystem);
+    return {
+      inputRows: describeInputs(form),
+      steps: buildStepDefinitions(result, unitSystem, violations),
+      costs: projectOperatingCosts(inputs, result, toEconomicsInputs(form)),
+      violations,
+    };
+  });
+
+  const toRow = (label: string, values: string[]): ComparisonRow => ({
+    label,
+    values,
+    differs: values.some((value) => value !== values[0]),
+  });
+
+  const inputLabels = [...new Set(analyses.flatMap(({ inputRows }) => inputRows.map((row) => `${row.section} › ${row.label}`)))];
+  const inputRows = inputLabels
+    .map((label) =>
+      toRow(
+        label,
+        analyses.map(({ inputRows: rows }) => {
+          const row = rows.find((entry) => `${entry.section} › ${entry.label}` === label);
+          return row ? `${row.value} ${row.unit}`.trim() : "—";
+        }),
+      ),
+    )
+    .filter((row) => row.differs);
+
+  const stepRows = (analyses[0]?.steps ?? []).map((step, index) =>
+    toRow(
+      `Step ${step.number}. ${step.title}`,
+      analyses.map(({ steps }) => (steps[index].blockedMessage ? "Blocked" : steps[index].result)),
+    ),
+  );
+
+  const costRows = [
+    toRow("Regenerations per year", analyses.map(({ costs }) => formatResult(costs.regenerationsPerYear, "regenerations", 0))),
+    toRow("Annual salt", analyses.map(({ costs }) => formatQuantity(costs.annualSaltTons, "saltMassLarge", unitSystem, 2))),
+    toRow(
+      "Annual regeneration water",
+      analyses.map(({ costs }) => formatQuantity(costs.annualRegenWaterGallons, "waterVolumeLarge", unitSystem, 0)),
+    ),
+    toRow("Annual operating cost", analyses.map(({ costs }) => formatCurrency(costs.annualOperatingCost))),
+    toRow(
+      "Design rule warnings (critical)",
+      analyses.map(({ violations }) => {
+        const critical = violations.filter((violation) => violation.severity === "critical").length;
+        return `${violations.length} (${critical})`;
+      }),
+    ),
+  ];
+
+  return [
+    { title: "Inputs that differ", rows: inputRows },
+    { title: "Calculation steps", rows: stepRows },
+    { title: "Operation", rows: costRows },
+  ];
+}
+
+export function ScenarioComparison({ form, unitSystem, onOpen }: ScenarioComparisonProps) {
+  const [workspace, setWorkspace] = useState<ScenarioWorkspace>(loadScenarioWorkspace);
+  const [storageError, setStorageError] = useState(false);
+  const { scenarios, selectedId } = workspace;
+
+  const groups = useMemo(() => compareScenarios(scenarios, unitSystem), [scenarios, unitSystem]);
+
+  const commit = (next: ScenarioWorkspace) => {
+    setWorkspace(next);
+    setStorageError(!storeScenarioWorkspace(next));
+  };
+
+  const addCurrent = () => {
+    commit({ ...workspace, scenarios: [...scenarios, createScenario(`Scenario ${scenarios.length + 1}`, form)] });
+  };
+
+  const updateScenario = (id: string, changes: Partial<Scenario>) => {
+    commit({ ...workspace, scenarios: scenarios.map((scenario) => (scenario.id === id ? { ...scenario, ...changes } : scenario)) });
+  };
+
+  const removeScenario = (scenario: Scenario) => {
+    if (!window.confirm(`Remove "${scenario.name}" from the comparison?`)) {
+      return;
+    }
+    commit({
+      scenarios: scenarios.filter((entry) => entry.id !== scenario.id),
+      selectedId: selectedId === scenario.id ? null : selectedId,
+    });
+  };
+
+  const cellClass = (scenario: Scenario, differs: boolean) =>
+    `py-2 pr-3 align-top ${differs ? "bg-amber-50 font-semibold text-amber-900" : scenario.id === selectedId ? "bg-cyan-50/70" : ""}`;
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+          </svg>
+          Scenario Comparison
+        </CardTitle>
+        <CardDescription>
+          Clone the calculator into scenarios, change one assumption at a time, and compare every step side by side. Stored in this
+          browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button onClick={addCurrent} className="w-full sm:w-auto">
+          Add current design as scenario
+        </Button>
+        {storageError && <p className="text-sm text-destructive">Could not save to browser storage. It may be full or disabled.</p>}
+
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scenarios yet. Add the current design, change the calculator, then add it again.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm" style={{ minWidth: `${220 + scenarios.length * 200}px` }}>
+              <thead>
+                <tr className="border-b align-top">
+                  <th className="w-56 py-2 pr-3 text-xs font-medium uppercase tracking-wide text-muted-foreground">Scenario</th>
+                  {scenarios.map((scenario) => (
+                    <th key={scenario.id} className={`py-2 pr-3 font-normal ${scenario.id === selectedId ? "bg-cyan-50/70" : ""}`}>
+                      <Input
+                        aria-label="Scenario name"
+                        value={scenario.name}
+                        onChange={(event) => updateScenario(scenario.id, { name: event.target.value })}
+                      />
+                      {scenario.id === selectedId && (
+                        <p className="mt-1 text-xs font-semibold uppercase tracking-wide text-cyan-700">Selected design</p>
+                      )}
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {scenario.id !== selectedId && (
+                          <Button onClick={() => commit({ ...workspace, selectedId: scenario.id })} size="sm" variant="secondary">
+                            Select
+                          </Button>
+                        )}
+                        <Button onClick={() => onOpen(scenario.form)} size="sm" variant="ghost">
+                          Open
+                        </Button>
+                        <Button onClick={() => updateScenario(scenario.id, { form })} size="sm" variant="ghost">
+                          Update
+                        </Button>
+                        <Button onClick={() => removeScenario(scenario)} size="sm" variant="ghost" className="text-destructive">
+                          Remove
+                        </Button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group) => (
+                  <Fragment key={group.title}>
+                    <tr>
+                      <th
+                        colSpan={scenarios.length + 1}
+                        className="pb-1 pt-4 text-xs font-semibold uppercase tracking-wide text-muted-foreground"
+                      >
+                        {group.title}
+                      </th>
+                    </tr>
+                    {group.rows.length === 0 ? (
+                      <tr className="border-b">
+                        <td colSpan={scenarios.length + 1} className="py-2 text-muted-foreground">
+                          Every scenario uses the same inputs.
+                        </td>
+                      </tr>
+                    ) : (
+                      group.rows.map((row) => (
+                        <tr key={row.label} className="border-b">
+                          <td className="py-2 pr-3 align-top text-muted-foreground">{row.label}</td>
+                          {row.values.map((value, index) => (
+                            <td key={scenarios[index].id} className={cellClass(scenarios[index], row.differs)}>
+                              {value}
+                            </td>
+                          ))}
+                        </tr>
+                      ))
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Highlighted rows differ between scenarios. Open loads a scenario into the calculator; Update replaces it with the calculator's
+          current inputs.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
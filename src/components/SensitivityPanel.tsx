@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { formatNumber, formatQuantity } from "@/lib/format";
+import { parseInputNumber } from "@/lib/form";
+import {
+  analyzeSensitivity,
+  percentChange,
+  SENSITIVITY_INPUT_LABELS,
+  SENSITIVITY_OUTPUTS,
+  type SensitivityOutput,
+} from "@/lib/sensitivity";
+import type { SizingInputs, SizingResult } from "@/lib/sizing";
+import type { UnitSystem } from "@/lib/units";
+
+type SensitivityPanelProps = {
+  sizingInputs: SizingInputs;
+  calculated: SizingResult;
+  unitSystem: UnitSystem;
+};
+
+const DEFAULT_PERCENT = "10";
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 170;
+const ROW_HEIGHT = 30;
+const BAR_HEIGHT = 18;
+
+function formatChange(change: number | null): string {
+  if (change === null) {
+    return "—";
+  }
+  return `${change > 0 ? "+" : ""}${formatNumber(change, 1)}%`;
+}
+
+export function SensitivityPanel({ sizingInputs, calculated, unitSystem }: SensitivityPanelProps) {
+  const [percentText, setPercentText] = useState(DEFAULT_PERCENT);
+  const [output, setOutput] = useState<SensitivityOutput>("resinFt3");
+
+  const percent = parseInputNumber(percentText);
+  const validPercent = percent !== null && percent > 0 && percent < 100 ? percent : null;
+
+  const analysis = useMemo(
+    () => (validPercent === null ? null : analyzeSensitivity(sizingInputs, calculated, validPercent)),
+    [sizingInputs, calculated, validPercent],
+  );
+
+  const bars = useMemo(() => {
+    if (!analysis) {
+      return [];
+    }
+    const base = analysis.base[output];
+    return analysis.rows
+      .map((row) => {
+        const low = percentChange(row.low[output], base);
+        const high = percentChange(row.high[output], base);
+        return { input: row.input, low, high, swing: Math.abs((high ?? 0) - (low ?? 0)) };
+      })
+      .sort((a, b) => b.swing - a.swing);
+  }, [analysis, output]);
+
+  const maxChange = Math.max(1, ...bars.flatMap((bar) => [Math.abs(bar.low ?? 0), Math.abs(bar.high ?? 0)]));
+  const halfWidth = (CHART_WIDTH - LABEL_WIDTH - 100) / 2;
+  const centerX = LABEL_WIDTH + 50 + halfWidth;
+  const toX = (change: number) => centerX + (change / maxChange) * halfWidth;
+  const chartHeight = bars.length * ROW_HEIGHT + 24;
+
+  const renderBar = (change: number | null, y: number, className: string) => {
+    if (change === null || change === 0) {
+      return null;
+    }
+    const x = toX(change);
+    return (
+      <>
+        <rect x={Math.min(x, centerX)} y={y} width={Math.max(1, Math.abs(x - centerX))} height={BAR_HEIGHT} className={className} rx={2} />
+        <text
+          x={change < 0 ? x - 4 : x + 4}
+          y={y + BAR_HEIGHT / 2}
+          dominantBaseline="middle"
+          textAnchor={change < 0 ? "end" : "start"}
+          className="fill-slate-600 text-[11px]"
+        >
+          {formatChange(change)}
+        </text>
+      </>
+    );
+  };
+
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="border-b border-slate-100">
+        <CardTitle className="flex items-center gap-2">
+          <svg className="h-5 w-5 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M7 12h10M10 18h4" />
+          </svg>
+          Sensitivity Analysis
+        </CardTitle>
+        <CardDescription>Each assumption is lowered and raised in turn with every other input held at the current design.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityPercent">Variation (± %)</Label>
+            <Input
+              id="sensitivityPercent"
+              type="number"
+              min="1"
+              max="99"
+              step="any"
+              value={percentText}
+              onChange={(event) => setPercentText(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sensitivityOutput">Tornado Chart Result</Label>
+            <Select id="sensitivityOutput" value={output} onChange={(event) => setOutput(event.target.value as SensitivityOutput)}>
+              {(Object.keys(SENSITIVITY_OUTPUTS) as SensitivityOutput[]).map((key) => (
+                <option key={key} value={key}>
+                  {SENSITIVITY_OUTPUTS[key].label}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+
+        {!analysis ? (
+          <p className="text-sm text-destructive">Variation must be greater than 0% and below 100%.</p>
+        ) : analysis.base[output] === null ? (
+          <p className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+            Complete the design so {SENSITIVITY_OUTPUTS[output].label.toLowerCase()} can be calculated.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${chartHeight}`}
+                className="w-full min-w-[520px]"
+                role="img"
+                aria-label={`Tornado chart of ${SENSITIVITY_OUTPUTS[output].label}`}
+              >
+                <line x1={centerX} x2={centerX} y1={0} y2={chartHeight - 20} className="stroke-slate-400" strokeWidth={1} />
+                {bars.map((bar, index) => {
+                  const y = index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+                  return (
+                    <g key={bar.input}>
+                      <text x={0} y={y + BAR_HEIGHT / 2} dominantBaseline="middle" className="fill-slate-700 text-[12px]">
+                        {SENSITIVITY_INPUT_LABELS[bar.input]}
+                      </text>
+                      {renderBar(bar.low, y, "fill-sky-500")}
+                      {renderBar(bar.high, y, "fill-amber-500")}
+                      {!bar.low && !bar.high && (
+                        <text x={centerX + 6} y={y + BAR_HEIGHT / 2} dominantBaseline="middle" className="fill-slate-400 text-[11px]">
+                          No effect
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+                <text x={centerX} y={chartHeight - 6} textAnchor="middle" className="fill-slate-500 text-[11px]">
+                  {formatQuantity(analysis.base[output], SENSITIVITY_OUTPUTS[output].quantity, unitSystem, 2)} at the current design
+                </text>
+              </svg>
+            </div>
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1.5">
+                <span className="h-3 w-3 rounded-sm bg-sky-500" /> Input −{formatNumber(validPercent ?? 0, 1)}%
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="h-3 w-3 rounded-sm bg-amber-500" /> Input +{formatNumber(validPercent ?? 0, 1)}%
+              </span>
+            </div>
+          </>
+        )}
+
+        {analysis && (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[720px] text-left text-sm">
+              <thead>
+                <tr className="border-b text-xs uppercase tracking-wide text-muted-foreground">
+                  <th className="py-2 pr-3 font-medium">Input</th>
+                  {(Object.keys(SENSITIVITY_OUTPUTS) as SensitivityOutput[]).map((key) => (
+                    <th key={key} className="py-2 pr-3 font-medium">
+                      {SENSITIVITY_OUTPUTS[key].label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.rows.map((row) => (
+                  <tr key={row.input} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-3 font-medium">{SENSITIVITY_INPUT_LABELS[row.input]}</td>
+                    {(Object.keys(SENSITIVITY_OUTPUTS) as SensitivityOutput[]).map((key) => {
+                      const { quantity } = SENSITIVITY_OUTPUTS[key];
+                      return (
+                        <td key={key} className="py-2 pr-3">
+                          {(["low", "high"] as const).map((side) => (
+                            <p key={side}>
+                              <span className="text-xs text-muted-foreground">{side === "low" ? "−" : "+"} </span>
+                              {formatQuantity(row[side][key], quantity, unitSystem, 2)}{" "}
+                              <span className="text-xs text-muted-foreground">
+                                ({formatChange(percentChange(row[side][key], analysis.base[key]))})
+                              </span>
+                            </p>
+                          ))}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs leading-relaxed text-muted-foreground">
+          Capacity is varied directly, bypassing the resin curve. Rows are sorted by total swing in the chart; the longest bars are the
+          assumptions worth pinning down first.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { StepDefinition } from "@/components/stepDefinitions";
+
+export function StepCard({ number, title, formula, result, explanation, blockedMessage, warnings = [] }: StepDefinition) {
+  return (
+    <Card className="border-slate-200/80 bg-white/95 shadow-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-base">
+          <span className="flex h-8 w-8 items-center justify-center rounded-full bg-gradient-to-br from-cyan-500/90 to-blue-600/90 text-white font-semibold shadow-sm">
+            {number}
+          </span>
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Formula Used</p>
+          <div className="mt-1 space-y-1 rounded-md bg-muted/70 px-3 py-2 text-sm leading-relaxed [&_p]:m-0">{formula}</div>
+        </div>
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Computed Result</p>
+          {blockedMessage ? (
+            <p className="mt-1 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {blockedMessage}
+            </p>
+          ) : (
+            <p className={`mt-1 text-lg font-semibold ${result === '—' ? 'text-muted-foreground/50' : 'text-foreground'}`}>{result}</p>
+          )}
+        </div>
+        {warnings.map((warning) => (
+          <div
+            key={warning.id}
+            className={`rounded-md border px-3 py-2 ${warning.severity === "critical" ? "border-destructive/30 bg-destructive/10 text-destructive" : "border-amber-300 bg-amber-50 text-amber-900"}`}
+          >
+            <p className="font-medium">{warning.message}</p>
+            <p className="mt-0.5 text-xs opacity-80">{warning.explanation}</p>
+          </div>
+        ))}
+        <p className="leading-relaxed text-muted-foreground">{explanation}</p>
+      </CardContent>
+    </Card>
+  );
+}
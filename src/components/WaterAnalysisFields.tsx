@@ -0,0 +1,134 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatNumber, formatQuantity } from "@/lib/format";
+import type { FormValues } from "@/lib/form";
+import { toHardnessGpg } from "@/lib/sizing";
+import { ION_BALANCE_TOLERANCE_PERCENT, type WaterAnalysisResult } from "@/lib/waterAnalysis";
+
+type AnalysisField =
+  | "calciumMgL"
+  | "magnesiumMgL"
+  | "sodiumMgL"
+  | "potassiumMgL"
+  | "ironPpm"
+  | "manganesePpm"
+  | "bicarbonateMgL"
+  | "chlorideMgL"
+  | "sulfateMgL"
+  | "nitrateMgL"
+  | "tdsMgL"
+  | "ph";
+
+type WaterAnalysisFieldsProps = {
+  form: FormValues;
+  analysis: WaterAnalysisResult | null;
+  onChange: (key: AnalysisField, value: string) => void;
+};
+
+const CATION_FIELDS: [AnalysisField, string][] = [
+  ["calciumMgL", "Calcium (Ca²⁺)"],
+  ["magnesiumMgL", "Magnesium (Mg²⁺)"],
+  ["sodiumMgL", "Sodium (Na⁺)"],
+  ["potassiumMgL", "Potassium (K⁺)"],
+  ["ironPpm", "Iron (Fe²⁺)"],
+  ["manganesePpm", "Manganese (Mn²⁺)"],
+];
+
+const ANION_FIELDS: [AnalysisField, string][] = [
+  ["bicarbonateMgL", "Bicarbonate (HCO₃⁻)"],
+  ["chlorideMgL", "Chloride (Cl⁻)"],
+  ["sulfateMgL", "Sulfate (SO₄²⁻)"],
+  ["nitrateMgL", "Nitrate (NO₃⁻)"],
+];
+
+export function WaterAnalysisFields({ form, analysis, onChange }: WaterAnalysisFieldsProps) {
+  const renderField = ([key, label]: [AnalysisField, string], unit = "") => (
+    <div key={key} className="space-y-2">
+      <Label htmlFor={key}>
+        {label}
+        {unit && ` (${unit})`}
+      </Label>
+      <Input
+        id={key}
+        type="number"
+        min="0"
+        step="any"
+        value={form[key]}
+        onChange={(event) => onChange(key, event.target.value)}
+      />
+    </div>
+  );
+
+  const hardnessGpg = analysis?.hardnessMgL ? toHardnessGpg(analysis.hardnessMgL, "mg/L (ppm) as CaCO₃") : null;
+  const balanceOff = analysis?.balanceMessage != null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Cations (mg/L as ion)</p>
+        <div className="mt-2 grid gap-4 sm:grid-cols-2">{CATION_FIELDS.map((field) => renderField(field))}</div>
+      </div>
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Anions (mg/L as ion)</p>
+        <div className="mt-2 grid gap-4 sm:grid-cols-2">{ANION_FIELDS.map((field) => renderField(field))}</div>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {renderField(["tdsMgL", "TDS"], "mg/L")}
+        {renderField(["ph", "pH"])}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Total hardness from Ca + Mg</p>
+          <p className={`mt-1 text-lg font-semibold ${hardnessGpg === null ? "text-muted-foreground/50" : ""}`}>
+            {formatQuantity(hardnessGpg, "hardness", form.unitSystem, 2)}
+          </p>
+          {analysis?.hardnessMgL != null && form.unitSystem === "us" && (
+            <p className="mt-0.5 text-xs text-muted-foreground">{formatNumber(analysis.hardnessMgL, 1)} mg/L as CaCO₃</p>
+          )}
+        </div>
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Ion balance</p>
+          <p
+            className={`mt-1 text-lg font-semibold ${analysis?.balanceErrorPercent == null ? "text-muted-foreground/50" : balanceOff ? "text-destructive" : ""}`}
+          >
+            {analysis?.balanceErrorPercent == null ? "—" : `${formatNumber(analysis.balanceErrorPercent, 1)}%`}
+          </p>
+          {analysis && (
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              {formatNumber(analysis.cationsMeqL, 2)} meq/L cations · {formatNumber(analysis.anionsMeqL, 2)} meq/L anions
+            </p>
+          )}
+        </div>
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            TDS{analysis?.tdsEstimated ? " (estimated from ions)" : ""}
+          </p>
+          <p className={`mt-1 text-lg font-semibold ${analysis?.tdsMgL == null ? "text-muted-foreground/50" : ""}`}>
+            {analysis?.tdsMgL == null ? "—" : `${formatNumber(analysis.tdsMgL, 0)} mg/L`}
+          </p>
+          {analysis?.monovalentPercent != null && (
+            <p className="mt-0.5 text-xs text-muted-foreground">Sodium + potassium: {formatNumber(analysis.monovalentPercent, 0)}% of cations</p>
+          )}
+        </div>
+        <div className="rounded-lg border bg-muted/40 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Capacity derating</p>
+          <p className="mt-1 text-lg font-semibold">
+            {analysis ? `${formatNumber(analysis.capacityDeratingFactor * 100, 1)}%` : "—"}
+          </p>
+          <p className="mt-0.5 text-xs text-muted-foreground">of the curve capacity is used in Step 6</p>
+        </div>
+      </div>
+
+      {balanceOff && (
+        <p className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {analysis?.balanceMessage}
+        </p>
+      )}
+      <p className="text-xs leading-relaxed text-muted-foreground">
+        Hardness is calculated as Ca × 2.497 + Mg × 4.118 (mg/L as CaCO₃). A balance within ±{ION_BALANCE_TOLERANCE_PERCENT}% indicates a
+        complete analysis.
+      </p>
+    </div>
+  );
+}
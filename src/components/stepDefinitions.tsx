@@ -0,0 +1,331 @@
+import type { ReactNode } from "react";
+import type { DesignRuleViolation } from "@/lib/designRules";
+import { formatNumber, formatQuantity, formatTankSize } from "@/lib/format";
+import { leakagePercentRange } from "@/lib/leakage";
+import type { SizingResult } from "@/lib/sizing";
+import { type Quantity, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+export type StepDefinition = {
+  number: number;
+  title: string;
+  formula: ReactNode;
+  result: string;
+  explanation: string;
+  blockedMessage?: string | null;
+  /** Design-rule warnings that concern this step. */
+  warnings?: DesignRuleViolation[];
+};
+
+/** Formula, result and explanation for every calculation step, shared by the step cards and the report. */
+export function buildStepDefinitions(
+  calculated: SizingResult,
+  unitSystem: UnitSystem,
+  violations: DesignRuleViolation[] = [],
+): StepDefinition[] {
+  const units = UNIT_LABELS[unitSystem];
+  const isMetric = unitSystem === "metric";
+  const displayQuantity = (value: number | null, quantity: Quantity, decimals = 2) =>
+    formatQuantity(value, quantity, unitSystem, decimals);
+  const coCurrentLeakage = leakagePercentRange("co-current");
+
+  const steps: StepDefinition[] = [
+    {
+      number: 1,
+      title: isMetric ? "Convert Hardness to mg/L as CaCO₃" : "Convert Hardness to Grains per Gallon",
+      formula: (
+        <>
+          <p>Hardness in milligrams per liter as CaCO₃ = hardness value × 100.09 (mmol/L), × 17.848 (°dH), × 10 (°fH) or × 17.1 (grains per gallon).</p>
+          <p>Hardness in grains per gallon = hardness in milligrams per liter as CaCO₃ ÷ 17.1.</p>
+          {calculated.waterAnalysis && (
+            <p>With a water analysis: hardness in milligrams per liter as CaCO₃ = calcium × 2.497 + magnesium × 4.118.</p>
+          )}
+        </>
+      ),
+      result: displayQuantity(calculated.step1HardnessGpg, "hardness", 2),
+      explanation: `This converts the hardness to ${units.hardness} so every later step is in one consistent unit. Softener capacity ratings are expressed in the same hardness basis, so the sizing math stays straightforward and comparable.`,
+    },
+    {
+      number: 2,
+      title: "Determine Design Hardness (Compensated or Not)",
+      formula: (
+        <>
+          <p>When compensation is off: design hardness = hardness in grains per gallon.</p>
+          <p>When compensation is on: design hardness = hardness in grains per gallon + 4 × (iron in ppm + manganese in ppm).</p>
+        </>
+      ),
+      result: displayQuantity(calculated.step2DesignHardnessGpg, "hardness", 2),
+      explanation: "Iron and manganese can consume exchange capacity and cause the resin bed to exhaust earlier than hardness-only calculations predict. Compensation adds a conservative load so the design is less likely to leak hardness before regeneration.",
+    },
+    {
+      number: 3,
+      title: `Daily Hardness Load (${units.grains} per day)`,
+      formula: "Daily hardness load = design hardness × gallons per day.",
+      result: calculated.step3GrainsPerDay === null ? "—" : `${displayQuantity(calculated.step3GrainsPerDay, "grains", 0)} per day`,
+      explanation: "This value is the total ion-exchange workload the softener must handle every day. It links water chemistry and water volume into one operating demand number.",
+    },
+    {
+      number: 4,
+      title: "Required Capacity Per Run (before reserve)",
+      formula: "Required capacity per run = daily hardness load × target days between regenerations.",
+      result: displayQuantity(calculated.step4RequiredGrainsPerRun, "grains", 0),
+      explanation: "This is the theoretical capacity needed for the selected regeneration interval with no safety margin. It establishes the baseline run length requirement before adding reserve.",
+    },
+    {
+      number: 5,
+      title: "Add Reserve (design grains per run)",
+      formula: "Reserve fraction = reserve capacity percent ÷ 100. Design grains per run = required grains per run ÷ (1 − reserve fraction).",
+      result: displayQuantity(calculated.step5DesignGrainsPerRun, "grains", 0),
+      blockedMessage: calculated.step5Message,
+      explanation: "Reserve capacity keeps the bed from operating right at the edge of exhaustion. This buffer reduces the chance of surprise hardness breakthrough during flow spikes or schedule drift.",
+    },
+    {
+      number: 6,
+      title: `Determine Working Capacity per ${isMetric ? "Liter" : "Cubic Foot"} of Resin`,
+      formula: (
+        <>
+          <p>
+            When override is off: read the selected resin's capacity curve, interpolating linearly between the two nearest
+            tabulated salt doses.
+          </p>
+          <p>When override is on: use the manually entered working capacity.</p>
+          {calculated.waterAnalysis && (
+            <p>
+              With a water analysis, the curve capacity is multiplied by a derating factor: 5% less per 500 mg/L of TDS above 500,
+              and 0.5% less per percent of sodium plus potassium above 25% of the cations (never below 60%).
+            </p>
+          )}
+        </>
+      ),
+      result:
+        calculated.step6DeratingFactor !== null && calculated.step6DeratingFactor < 1
+          ? `${displayQuantity(calculated.step6CapacityPerFt3, "capacity", 0)} (${formatNumber(calculated.step6DeratingFactor * 100, 1)}% of curve capacity)`
+          : displayQuantity(calculated.step6CapacityPerFt3, "capacity", 0),
+      blockedMessage: calculated.step6Message,
+      explanation: "Working capacity per cubic foot depends strongly on salt dose and on the resin. Higher salt dose usually recovers more capacity, but it increases salt use and operating cost.",
+    },
+    {
+      number: 7,
+      title: `Required Resin Volume (${units.resinVolume})`,
+      formula: "Required resin volume per tank = design grains per run ÷ units in service ÷ working capacity per cubic foot.",
+      result: displayQuantity(calculated.step7ResinFt3, "resinVolume", 2),
+      blockedMessage: calculated.step7Message,
+      explanation: "This is the amount of resin each tank needs to carry its share of the design grain load each run. More resin means more exchange sites available before exhaustion.",
+    },
+    {
+      number: 8,
+      title: `Salt Required Per Regeneration (${units.saltMass})`,
+      formula: "Salt required per regeneration = resin volume per tank × salt dose.",
+      result: displayQuantity(calculated.step8SaltLbsPerRegen, "saltMass", 2),
+      blockedMessage: calculated.step8Message,
+      explanation: "This estimates how much salt each regeneration event will consume. It is a key operating metric for salt delivery planning and ongoing cost tracking.",
+    },
+    {
+      number: 9,
+      title: `Estimated Brine Refill Water (${units.waterVolume})`,
+      formula: "Estimated brine refill water = salt required per regeneration ÷ salt dissolution factor.",
+      result: displayQuantity(calculated.step9BrineWaterGallons, "waterVolume", 2),
+      blockedMessage: calculated.step9Message,
+      explanation: "This provides a practical estimate of refill water needed to dissolve regeneration salt. It helps size refill settings and confirms the brine system can support expected regeneration demand.",
+    },
+    {
+      number: 10,
+      title: `Required Bed Area (${units.area}) from Peak Flow`,
+      formula: "Required bed area per tank = peak flow rate ÷ units in service ÷ service loading rate.",
+      result: displayQuantity(calculated.step10BedAreaFt2, "area", 2),
+      blockedMessage: calculated.step10Message,
+      explanation: "This checks whether bed surface area is large enough for the expected peak service flow. Keeping loading rate in range lowers the risk of channeling and hardness leakage.",
+    },
+    {
+      number: 11,
+      title: `Minimum Tank Diameter Estimate (${units.length})`,
+      formula: isMetric
+        ? "Tank diameter in meters = 2 × square root of (bed area ÷ pi). Tank diameter in millimeters = tank diameter in meters × 1000."
+        : "Tank diameter in feet = 2 × square root of (bed area ÷ pi). Tank diameter in inches = tank diameter in feet × 12.",
+      result: calculated.step11DiameterFt === null || calculated.step11DiameterIn === null
+        ? "—"
+        : `${displayQuantity(calculated.step11DiameterFt, "lengthLarge", 2)} (${displayQuantity(calculated.step11DiameterIn, "length", 2)})`,
+      blockedMessage: calculated.step11Message,
+      explanation: "This converts required flow area into an equivalent circular vessel diameter. Treat it as a first-pass diameter; Step 13 rounds it up to a standard vessel.",
+    },
+    {
+      number: 12,
+      title: `Backwash Flow Requirement (${units.flow})`,
+      formula: (
+        <>
+          <p>Backwash flow requirement = bed area × backwash rate.</p>
+          <p>
+            When override is off: backwash rate = the resin's 50% expansion rate at 68 °F × target expansion ÷ 50 × water
+            viscosity at 68 °F ÷ water viscosity at the feed temperature.
+          </p>
+          <p>When override is on: use the manually entered backwash rate.</p>
+        </>
+      ),
+      result:
+        calculated.step12BackwashFlowGpm === null
+          ? displayQuantity(null, "flow", 2)
+          : `${displayQuantity(calculated.step12BackwashFlowGpm, "flow", 2)} at ${displayQuantity(calculated.step12BackwashRate, "loadingRate", 2)}`,
+      blockedMessage: calculated.step12Message,
+      explanation: "Backwash reclassifies and cleans the resin bed after service. Cold water is more viscous and lifts the bed at a lower rate than warm water, so the rate is corrected for temperature to reach the target expansion. This flow requirement must be supported by the water source and drain system so cleaning is effective.",
+    },
+    {
+      number: 13,
+      title: "Standard Vessel Selection",
+      formula: (
+        <>
+          <p>Select the smallest catalog tank whose maximum resin volume ≥ required resin volume and whose bed area ≥ required bed area.</p>
+          <p>
+            {isMetric
+              ? "Bed depth in millimeters = resin volume in liters ÷ tank bed area in square meters."
+              : "Bed depth in inches = resin volume ÷ tank bed area × 12."}{" "}
+            Actual service loading rate = peak flow rate ÷ units in service ÷ tank bed area.
+          </p>
+        </>
+      ),
+      result: calculated.step13Tank === null
+        ? "—"
+        : `${formatTankSize(calculated.step13Tank.diameterIn, calculated.step13Tank.sideShellIn, unitSystem)} tank, ${displayQuantity(calculated.step13BedDepthIn, "length", 1)} bed depth (${displayQuantity(calculated.step13FreeboardIn, "length", 1)} freeboard), ${displayQuantity(calculated.step13ServiceLoadingRate, "loadingRate", 2)}`,
+      blockedMessage: calculated.step13Message,
+      explanation: "Vessels are built in standard diameters and heights, so the theoretical diameter is rounded up to the next commercial size that holds the resin with room left for backwash expansion. A larger tank lowers the actual loading rate and spreads the resin into a shallower bed.",
+    },
+    {
+      number: 14,
+      title: "System Configuration Totals",
+      formula: (
+        <>
+          <p>Tanks installed = 1 (single), 2 (twin alternating) or units in service + 1 (parallel N + 1).</p>
+          <p>Total resin = resin volume per tank × tanks installed. Salt per regeneration interval = salt per regeneration × units in service.</p>
+        </>
+      ),
+      result: calculated.totalUnits === null || calculated.totalResinFt3 === null
+        ? "—"
+        : `${calculated.totalUnits} × ${displayQuantity(calculated.step11DiameterIn, "length", 1)} minimum diameter tanks, ${displayQuantity(calculated.totalResinFt3, "resinVolume", 2)} total resin, ${displayQuantity(calculated.totalSaltLbsPerInterval, "saltMass", 2)} of salt per interval`,
+      blockedMessage: calculated.systemMessage ?? calculated.step7Message ?? calculated.step11Message,
+      explanation: "Twin and parallel trains keep soft water flowing while one tank regenerates. Every installed tank carries the same resin charge, but only the tanks in service regenerate each interval, so standby tanks add resin without adding salt.",
+    },
+    {
+      number: 15,
+      title: `Backwash Volume (${units.waterVolume})`,
+      formula: "Backwash volume = backwash flow requirement × backwash time.",
+      result: displayQuantity(calculated.step15BackwashGallons, "waterVolume", 0),
+      blockedMessage: calculated.step15Message,
+      explanation: "Backwash is the largest single drain flow in most cycles. Its volume tells you how much water the source must supply at the backwash rate before brining begins.",
+    },
+    {
+      number: 16,
+      title: `Brine Draw (${units.waterVolume} and minutes)`,
+      formula: (
+        <>
+          <p>
+            {isMetric
+              ? "Salt per liter of brine (kg) = 1.0 × (1 + 0.0073 × brine concentration) × brine concentration ÷ 100."
+              : "Salt per gallon of brine (pounds) = 8.34 × (1 + 0.0073 × brine concentration) × brine concentration ÷ 100."}
+          </p>
+          <p>Brine volume = salt required per regeneration ÷ salt per gallon of brine. Brine draw flow = brine draw rate × resin volume. Brine draw time = brine volume ÷ brine draw flow.</p>
+        </>
+      ),
+      result: calculated.step16BrineGallons === null || calculated.step16BrineDrawMinutes === null
+        ? "—"
+        : `${displayQuantity(calculated.step16BrineGallons, "waterVolume", 0)} over ${formatNumber(calculated.step16BrineDrawMinutes, 1)} minutes at ${displayQuantity(calculated.step16BrineDrawGpm, "flow", 2)}`,
+      blockedMessage: calculated.step16Message,
+      explanation: "The salt dose reaches the resin as diluted brine drawn slowly through the bed. Drawing too fast shortens contact time and wastes salt, so the draw rate is tied to resin volume rather than bed area.",
+    },
+    {
+      number: 17,
+      title: `Slow Rinse (${units.waterVolume} and minutes)`,
+      formula: `Slow rinse volume = slow rinse bed volumes × resin volume${isMetric ? "" : " × 7.48"}. Slow rinse time = slow rinse volume ÷ brine draw flow.`,
+      result: calculated.step17SlowRinseGallons === null || calculated.step17SlowRinseMinutes === null
+        ? "—"
+        : `${displayQuantity(calculated.step17SlowRinseGallons, "waterVolume", 0)} over ${formatNumber(calculated.step17SlowRinseMinutes, 1)} minutes`,
+      blockedMessage: calculated.step17Message,
+      explanation: "The slow (displacement) rinse pushes the last of the brine through the bed at the draw rate so the tail of the salt dose still does useful exchange work.",
+    },
+    {
+      number: 18,
+      title: `Fast Rinse (${units.waterVolume})`,
+      formula: "Fast rinse flow = fast rinse rate × bed area. Fast rinse volume = fast rinse flow × fast rinse time.",
+      result: calculated.step18FastRinseGpm === null || calculated.step18FastRinseGallons === null
+        ? "—"
+        : `${displayQuantity(calculated.step18FastRinseGallons, "waterVolume", 0)} at ${displayQuantity(calculated.step18FastRinseGpm, "flow", 2)}`,
+      blockedMessage: calculated.step18Message,
+      explanation: "The fast rinse flushes residual brine and packs the bed before it returns to service. It runs near service flow, so it often sets the drain capacity along with backwash.",
+    },
+    {
+      number: 19,
+      title: "Regeneration Cycle Totals",
+      formula: (
+        <>
+          <p>Wastewater per cycle = backwash volume + brine volume + slow rinse volume + fast rinse volume.</p>
+          <p>Regeneration time = backwash time + brine draw time + slow rinse time + fast rinse time. Peak drain flow = largest of backwash, brine draw and fast rinse flows.</p>
+        </>
+      ),
+      result: calculated.step19WastewaterGallons === null || calculated.step19RegenerationMinutes === null
+        ? "—"
+        : `${displayQuantity(calculated.step19WastewaterGallons, "waterVolume", 0)} to drain in ${formatNumber(calculated.step19RegenerationMinutes, 0)} minutes, ${displayQuantity(calculated.step19PeakDrainGpm, "flow", 2)} peak`,
+      blockedMessage: calculated.step19Message,
+      explanation: "These per-tank totals size the drain line and sump, confirm the water supply can cover regeneration, and set how long a tank is out of service each cycle.",
+    },
+    {
+      number: 20,
+      title: "Expected Hardness Leakage (mg/L as CaCO₃)",
+      formula: (
+        <>
+          <p>Hardness leakage = feed TDS × leakage fraction for the salt dose and regeneration mode.</p>
+          <p>
+            Co-current leakage fraction falls from {formatNumber(coCurrentLeakage.lowestDose, 1)}% of TDS at the lowest table dose to{" "}
+            {formatNumber(coCurrentLeakage.highestDose, 1)}% at the highest; counter-current is one tenth of that. Doses between table points are
+            interpolated.
+          </p>
+        </>
+      ),
+      result:
+        calculated.step20LeakageMgL === null
+          ? "—"
+          : `${formatNumber(calculated.step20LeakageMgL, 2)} mg/L as CaCO₃${calculated.step20MeetsTarget === null ? "" : calculated.step20MeetsTarget ? ", meets the effluent target" : ", exceeds the effluent target"}`,
+      blockedMessage: calculated.step20Message,
+      explanation: "Some hardness always slips through because the resin at the outlet is never fully regenerated. Higher salt doses and counter-current regeneration leave cleaner resin at the outlet, which matters for boiler feed and other low-hardness duties.",
+    },
+    {
+      number: 21,
+      title: `Salt Consumption and Storage Required (${units.saltMass})`,
+      formula: (
+        <>
+          <p>Regenerations per month = 365 ÷ 12 ÷ days between regenerations × units in service. Salt per month = salt per regeneration × regenerations per month.</p>
+          <p>With metered control: regenerations per month = metered regenerations per year ÷ 12, using the salt per regeneration of the metered tank.</p>
+          <p>
+            Salt to store = the larger of salt per month ÷ (365 ÷ 12) × salt refill interval and salt per regeneration interval (one regeneration
+            when metered), ÷ (1 − insoluble fraction of the salt type).
+          </p>
+        </>
+      ),
+      result: calculated.step21StorageRequiredLbs === null || calculated.step21RegenerationsPerMonth === null
+        ? "—"
+        : `${displayQuantity(calculated.step21StorageRequiredLbs, "saltMass", 0)} to store, ${displayQuantity(calculated.step21SaltLbsPerMonth, "saltMass", 0)} per month over ${formatNumber(calculated.step21RegenerationsPerMonth, 1)} regenerations`,
+      blockedMessage: calculated.step21Message,
+      explanation: "The brine tank has to carry the plant from one salt delivery to the next, and never less than one full regeneration interval. Insoluble grit arrives with every delivery and takes up storage without making brine, so lower-purity salt needs more room.",
+    },
+    {
+      number: 22,
+      title: "Brine Tank Selection",
+      formula: (
+        <>
+          <p>
+            Salt storage capacity = tank area × salt storage height × bulk density of the salt type (about{" "}
+            {isMetric ? "990 kg/m³ for pellets, 1,040 for solar crystals and 1,150" : "62 lb/ft³ for pellets, 65 for solar crystals and 72"} for rock
+            salt).
+          </p>
+          <p>
+            Select the smallest standard brine tank whose salt storage capacity ≥ salt to store and whose salt bed voids (45% of the storage volume) hold the
+            Step 9 refill water. Days of autonomy = salt storage capacity × (1 − insoluble fraction) ÷ salt per day.
+          </p>
+        </>
+      ),
+      result: calculated.step22BrineTank === null || calculated.step22DaysOfAutonomy === null
+        ? "—"
+        : `${formatTankSize(calculated.step22BrineTank.diameterIn, calculated.step22BrineTank.heightIn, unitSystem)} brine tank, ${displayQuantity(calculated.step22SaltCapacityLbs, "saltMass", 0)} salt storage, ${formatNumber(calculated.step22DaysOfAutonomy, 1)} days of autonomy`,
+      blockedMessage: calculated.step22Message,
+      explanation: `Brine tanks come in standard diameters and heights, so the storage requirement is rounded up to the next stock size; the extra room becomes extra days between deliveries. Insolubles settle as sludge below the salt platform (${calculated.step22InsolublesLbsPerMonth === null ? "about 3% of each delivery with rock salt" : `${displayQuantity(calculated.step22InsolublesLbsPerMonth, "saltMass", 1)} per month with this salt`}), and the tank needs cleaning out before it reaches the brine well screen.`,
+    },
+  ];
+
+  return steps.map((step) => ({ ...step, warnings: violations.filter((violation) => violation.step === step.number) }));
+}
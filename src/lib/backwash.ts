@@ -0,0 +1,31 @@
+import type { ResinProfile } from "@/lib/resins";
+
+/** Water viscosity in centipoise from the Vogel equation; accurate to about 1% from 32 °F to 212 °F. */
+export function waterViscosityCp(temperatureF: number): number {
+  const kelvin = ((temperatureF - 32) * 5) / 9 + 273.15;
+  return 0.02939 * Math.exp(507.88 / (kelvin - 149.3));
+}
+
+const REFERENCE_TEMPERATURE_F = 68;
+const REFERENCE_EXPANSION_PERCENT = 50;
+export const TARGET_EXPANSION_PERCENT = 50;
+
+/**
+ * Backwash rate in gpm/ft² for a bed expansion at a temperature. Expansion depends on drag,
+ * which scales with viscosity, so cold water lifts the bed at a lower rate than warm water.
+ * Over the practical 25–100% range expansion is close to proportional to rate.
+ */
+export function backwashRateForExpansion(
+  temperatureF: number,
+  resin: ResinProfile,
+  expansionPercent = TARGET_EXPANSION_PERCENT,
+): number {
+  const referenceRate = resin.backwashRate50At68F;
+  const viscosityRatio = waterViscosityCp(REFERENCE_TEMPERATURE_F) / waterViscosityCp(temperatureF);
+  return referenceRate * (expansionPercent / REFERENCE_EXPANSION_PERCENT) * viscosityRatio;
+}
+
+/** Approximate bed expansion for a backwash rate; the inverse of `backwashRateForExpansion`. */
+export function estimateBedExpansionPercent(backwashRate: number, temperatureF: number, resin: ResinProfile): number {
+  return (REFERENCE_EXPANSION_PERCENT * backwashRate) / backwashRateForExpansion(temperatureF, resin, REFERENCE_EXPANSION_PERCENT);
+}
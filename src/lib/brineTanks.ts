@@ -0,0 +1,75 @@
+export type SaltType = "pellet" | "solar" | "rock";
+
+export const SALT_TYPE_LABELS: Record<SaltType, string> = {
+  pellet: "Evaporated pellets",
+  solar: "Solar crystals",
+  rock: "Rock salt (with insolubles)",
+};
+
+/**
+ * Typical loose bulk density of each salt grade in pounds per cubic foot, and the share of
+ * each delivery that never dissolves and settles as sludge in the bottom of the brine tank.
+ */
+export const SALT_PROPERTIES: Record<SaltType, { bulkDensityLbsPerFt3: number; insolublePercent: number }> = {
+  pellet: { bulkDensityLbsPerFt3: 62, insolublePercent: 0.1 },
+  solar: { bulkDensityLbsPerFt3: 65, insolublePercent: 0.5 },
+  rock: { bulkDensityLbsPerFt3: 72, insolublePercent: 3 },
+};
+
+/**
+ * Standard polyethylene brine tank sizes (diameter × height, inches). Salt is stored from the
+ * top of the salt platform to a few inches below the rim, so `saltHeightIn` is less than the
+ * overall height.
+ */
+export type StandardBrineTank = {
+  model: string;
+  diameterIn: number;
+  heightIn: number;
+  saltHeightIn: number;
+};
+
+export const STANDARD_BRINE_TANKS: StandardBrineTank[] = [
+  { model: "18x33", diameterIn: 18, heightIn: 33, saltHeightIn: 25 },
+  { model: "18x40", diameterIn: 18, heightIn: 40, saltHeightIn: 32 },
+  { model: "24x41", diameterIn: 24, heightIn: 41, saltHeightIn: 33 },
+  { model: "24x50", diameterIn: 24, heightIn: 50, saltHeightIn: 42 },
+  { model: "30x50", diameterIn: 30, heightIn: 50, saltHeightIn: 42 },
+  { model: "39x48", diameterIn: 39, heightIn: 48, saltHeightIn: 40 },
+  { model: "42x60", diameterIn: 42, heightIn: 60, saltHeightIn: 50 },
+  { model: "50x60", diameterIn: 50, heightIn: 60, saltHeightIn: 50 },
+  { model: "62x60", diameterIn: 62, heightIn: 60, saltHeightIn: 50 },
+  { model: "72x72", diameterIn: 72, heightIn: 72, saltHeightIn: 60 },
+];
+
+/** Share of a wet salt bed's volume taken up by the brine that fills the spaces between crystals. */
+export const SALT_BED_VOID_FRACTION = 0.45;
+
+const GALLONS_PER_FT3 = 7.48;
+
+/** Volume of the salt storage zone in cubic feet. */
+export function brineTankSaltVolumeFt3(tank: StandardBrineTank): number {
+  const radiusFt = tank.diameterIn / 2 / 12;
+  return Math.PI * radiusFt * radiusFt * (tank.saltHeightIn / 12);
+}
+
+/** Pounds of salt of one grade that fill the storage zone, insolubles included. */
+export function brineTankSaltCapacityLbs(tank: StandardBrineTank, saltType: SaltType): number {
+  return brineTankSaltVolumeFt3(tank) * SALT_PROPERTIES[saltType].bulkDensityLbsPerFt3;
+}
+
+/** Brine the voids of a full salt bed can hold, in gallons. */
+export function brineTankBrineGallons(tank: StandardBrineTank): number {
+  return brineTankSaltVolumeFt3(tank) * SALT_BED_VOID_FRACTION * GALLONS_PER_FT3;
+}
+
+/**
+ * Smallest catalog brine tank that stores `storageLbs` of the salt grade and holds one
+ * regeneration's refill water within the salt bed. Returns `null` when nothing is large enough.
+ */
+export function selectBrineTank(storageLbs: number, refillGallons: number, saltType: SaltType): StandardBrineTank | null {
+  return (
+    STANDARD_BRINE_TANKS.find(
+      (tank) => brineTankSaltCapacityLbs(tank, saltType) >= storageLbs && brineTankBrineGallons(tank) >= refillGallons,
+    ) ?? null
+  );
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { intervalRange } from "@/lib/chartData";
+
+describe("intervalRange", () => {
+  it("steps half a day up to a week", () => {
+    const days = intervalRange(2);
+    expect(days).toHaveLength(14);
+    expect(days[0]).toBe(0.5);
+    expect(days[days.length - 1]).toBe(7);
+  });
+
+  it("extends to twice a longer interval", () => {
+    const days = intervalRange(10);
+    expect(days[days.length - 1]).toBe(20);
+  });
+
+  it("never returns more than 60 points", () => {
+    const days = intervalRange(5000);
+    expect(days).toHaveLength(60);
+    expect(days[days.length - 1]).toBe(10000);
+  });
+});
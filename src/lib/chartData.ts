@@ -0,0 +1,49 @@
+import { type SizingInputs, sizeSoftener } from "@/lib/sizing";
+
+export type IntervalPoint = {
+  daysBetweenRegen: number;
+  resinFt3: number | null;
+  /** Diameter of the Step 13 catalog vessel, which steps up as the resin outgrows each tank. */
+  tankDiameterIn: number | null;
+};
+
+export type FlowPoint = {
+  peakFlowGpm: number;
+  bedAreaFt2: number | null;
+};
+
+const INTERVAL_STEP_DAYS = 0.5;
+const MIN_INTERVAL_RANGE_DAYS = 7;
+/** Each point is a full sizing on the main thread, so long ranges are sampled more coarsely. */
+const MAX_INTERVAL_POINTS = 60;
+const FLOW_POINTS = 24;
+
+/**
+ * Evenly spaced intervals up to a week, or to twice the current interval when that is longer:
+ * half-day steps, widened so there are never more than `MAX_INTERVAL_POINTS`.
+ */
+export function intervalRange(currentDays: number | null): number[] {
+  const lastDay = Math.max(MIN_INTERVAL_RANGE_DAYS, Math.ceil((currentDays ?? 0) * 2));
+  const points = Math.min(MAX_INTERVAL_POINTS, Math.round(lastDay / INTERVAL_STEP_DAYS));
+  return Array.from({ length: points }, (_, index) => (lastDay * (index + 1)) / points);
+}
+
+/** Resin volume and selected tank diameter at each regeneration interval, all other inputs unchanged. */
+export function sweepRegenerationInterval(inputs: SizingInputs): IntervalPoint[] {
+  return intervalRange(inputs.daysBetweenRegen).map((daysBetweenRegen) => {
+    const result = sizeSoftener({ ...inputs, daysBetweenRegen });
+    return { daysBetweenRegen, resinFt3: result.step7ResinFt3, tankDiameterIn: result.step13Tank?.diameterIn ?? null };
+  });
+}
+
+/** Step 10 bed area from a quarter of the current peak flow to twice it. Empty until a peak flow is entered. */
+export function sweepPeakFlow(inputs: SizingInputs): FlowPoint[] {
+  const current = inputs.peakFlowGpm;
+  if (current === null || current <= 0) {
+    return [];
+  }
+  return Array.from({ length: FLOW_POINTS }, (_, index) => {
+    const peakFlowGpm = current * (0.25 + (1.75 * index) / (FLOW_POINTS - 1));
+    return { peakFlowGpm, bedAreaFt2: sizeSoftener({ ...inputs, peakFlowGpm }).step10BedAreaFt2 };
+  });
+}
@@ -0,0 +1,123 @@
+export const HOURS_PER_DAY = 24;
+
+/**
+ * Peak instantaneous flow ÷ average flow in the busiest hour. Hourly totals hide the short
+ * surges when several draws overlap; 1.5 is a common allowance for industrial service.
+ */
+export const DEFAULT_HOURLY_PEAK_FACTOR = 1.5;
+
+/** Regeneration length assumed for the window until Step 19 can be calculated. */
+const DEFAULT_REGENERATION_MINUTES = 120;
+
+/** A process or fixture that draws a steady flow for part of the day. */
+export type ProcessLoad = {
+  flowGpm: number | null;
+  /** Hour of day the load starts, 0–23. */
+  startHour: number | null;
+  hoursPerDay: number | null;
+};
+
+export type RegenerationWindow = {
+  startHour: number;
+  hours: number;
+  /** Water used during the window, which the standby or bypass has to carry. */
+  gallons: number;
+};
+
+export type DemandEstimate = {
+  /** Gallons used in each hour, midnight first. */
+  hourlyGallons: number[];
+  gallonsPerDay: number;
+  peakFlowGpm: number;
+  regenerationWindow: RegenerationWindow;
+};
+
+function isUsable(value: number | null): value is number {
+  return value !== null && value > 0;
+}
+
+/**
+ * Lowest-use run of whole hours long enough for one regeneration, wrapping past midnight.
+ * Ties go to the earliest start so the suggestion is stable.
+ */
+export function findRegenerationWindow(hourlyGallons: number[], regenerationMinutes: number | null): RegenerationWindow {
+  const minutes = isUsable(regenerationMinutes) ? regenerationMinutes : DEFAULT_REGENERATION_MINUTES;
+  const hours = Math.min(HOURS_PER_DAY, Math.ceil(minutes / 60));
+
+  let best: RegenerationWindow | null = null;
+  for (let startHour = 0; startHour < HOURS_PER_DAY; startHour += 1) {
+    let gallons = 0;
+    for (let offset = 0; offset < hours; offset += 1) {
+      gallons += hourlyGallons[(startHour + offset) % HOURS_PER_DAY] ?? 0;
+    }
+    if (!best || gallons < best.gallons) {
+      best = { startHour, hours, gallons };
+    }
+  }
+  return best ?? { startHour: 0, hours, gallons: 0 };
+}
+
+/**
+ * Demand from gallons entered for each hour of the day. Returns `null` until some usage is
+ * entered. Peak flow is the busiest hour's average flow times `peakFactor`.
+ */
+export function estimateFromHourlyUsage(
+  hourlyGallons: (number | null)[],
+  peakFactor: number | null,
+  regenerationMinutes: number | null,
+): DemandEstimate | null {
+  const hours = Array.from({ length: HOURS_PER_DAY }, (_, hour) => Math.max(0, hourlyGallons[hour] ?? 0));
+  const gallonsPerDay = hours.reduce((sum, gallons) => sum + gallons, 0);
+  if (gallonsPerDay <= 0) {
+    return null;
+  }
+
+  const factor = isUsable(peakFactor) ? peakFactor : DEFAULT_HOURLY_PEAK_FACTOR;
+  return {
+    hourlyGallons: hours,
+    gallonsPerDay,
+    peakFlowGpm: (Math.max(...hours) / 60) * factor,
+    regenerationWindow: findRegenerationWindow(hours, regenerationMinutes),
+  };
+}
+
+/**
+ * Demand from process loads. Each load runs at its flow from its start hour for its hours per
+ * day (a part hour uses the matching share of that hour), wrapping past midnight. Peak flow is
+ * the largest sum of flows running in the same hour. Incomplete loads are skipped.
+ */
+export function estimateFromProcessLoads(loads: ProcessLoad[], regenerationMinutes: number | null): DemandEstimate | null {
+  const hourlyGallons = Array<number>(HOURS_PER_DAY).fill(0);
+  const hourlyFlowGpm = Array<number>(HOURS_PER_DAY).fill(0);
+
+  for (const load of loads) {
+    if (!isUsable(load.flowGpm) || !isUsable(load.hoursPerDay) || load.startHour === null) {
+      continue;
+    }
+    const startHour = ((Math.floor(load.startHour) % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY;
+    const hoursPerDay = Math.min(HOURS_PER_DAY, load.hoursPerDay);
+    for (let offset = 0; offset < Math.ceil(hoursPerDay); offset += 1) {
+      const hour = (startHour + offset) % HOURS_PER_DAY;
+      const share = Math.min(1, hoursPerDay - offset);
+      hourlyGallons[hour] += load.flowGpm * 60 * share;
+      hourlyFlowGpm[hour] += load.flowGpm;
+    }
+  }
+
+  const gallonsPerDay = hourlyGallons.reduce((sum, gallons) => sum + gallons, 0);
+  if (gallonsPerDay <= 0) {
+    return null;
+  }
+
+  return {
+    hourlyGallons,
+    gallonsPerDay,
+    peakFlowGpm: Math.max(...hourlyFlowGpm),
+    regenerationWindow: findRegenerationWindow(hourlyGallons, regenerationMinutes),
+  };
+}
+
+/** "HH:00" for an hour of the day, wrapping past midnight. */
+export function formatHour(hour: number): string {
+  return `${String(hour % HOURS_PER_DAY).padStart(2, "0")}:00`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DESIGN_FILE_SCHEMA_VERSION, parseDesignFile } from "@/lib/designFile";
+import { DEFAULT_VALUES } from "@/lib/form";
+
+function designFileText(schemaVersion: number, inputs: Record<string, unknown>): string {
+  return JSON.stringify({ kind: "softener-sizer-design", schemaVersion, details: { name: "Plant A" }, inputs });
+}
+
+describe("parseDesignFile", () => {
+  it("reads a current file", () => {
+    const result = parseDesignFile(designFileText(DESIGN_FILE_SCHEMA_VERSION, { ...DEFAULT_VALUES, hardnessValue: "250" }));
+    expect(result.ok && result.design.form.hardnessValue).toBe("250");
+    expect(result.ok && result.design.details.name).toBe("Plant A");
+  });
+
+  it("rejects files from a newer schema and files that are not designs", () => {
+    expect(parseDesignFile(designFileText(DESIGN_FILE_SCHEMA_VERSION + 1, {})).ok).toBe(false);
+    expect(parseDesignFile("{}").ok).toBe(false);
+    expect(parseDesignFile("not json").ok).toBe(false);
+  });
+
+  it("turns the backwash override on for version 1 files with a custom rate", () => {
+    const result = parseDesignFile(designFileText(1, { unitSystem: "us", backwashRate: "9" }));
+    expect(result.ok && result.design.form.overrideBackwashRate).toBe(true);
+    expect(result.ok && result.design.form.backwashRate).toBe("9");
+  });
+
+  it("leaves the backwash override off for version 1 files at the default rate", () => {
+    const metric = parseDesignFile(designFileText(1, { unitSystem: "metric", backwashRate: "17.11325" }));
+    expect(metric.ok && metric.design.form.overrideBackwashRate).toBe(false);
+    const saved = parseDesignFile(designFileText(1, { backwashRate: "9", overrideBackwashRate: false }));
+    expect(saved.ok && saved.design.form.overrideBackwashRate).toBe(false);
+  });
+
+  it("converts the numeric lb/ft³ salt dose of version 1 files to the file's unit system", () => {
+    const us = parseDesignFile(designFileText(1, { unitSystem: "us", saltDose: 12 }));
+    expect(us.ok && us.design.form.saltDose).toBe("12");
+    const metric = parseDesignFile(designFileText(1, { unitSystem: "metric", saltDose: 10 }));
+    expect(metric.ok && metric.design.form.saltDose).toBe("160.185");
+  });
+});
@@ -0,0 +1,136 @@
+import { name as appName, version as appVersion } from "../../package.json";
+import type { OperatingCostProjection } from "@/lib/economics";
+import { type FormValues, sanitizeFormValues, upgradeLegacyFormValues } from "@/lib/form";
+import { type DesignDetails, sanitizeDesignDetails } from "@/lib/projectLibrary";
+import type { SizingResult } from "@/lib/sizing";
+
+export const DESIGN_FILE_SCHEMA_VERSION = 2;
+const DESIGN_FILE_KIND = "softener-sizer-design";
+
+/**
+ * Archived design. `inputs` is the source of truth on import; `results` is a snapshot for
+ * people reading the file and is recomputed rather than trusted when the file is reopened.
+ */
+export type DesignFile = {
+  kind: typeof DESIGN_FILE_KIND;
+  schemaVersion: number;
+  app: { name: string; version: string };
+  exportedAt: string;
+  details: DesignDetails;
+  inputs: FormValues;
+  results: {
+    sizing: SizingResult;
+    operatingCosts: OperatingCostProjection;
+  };
+};
+
+export type ImportedDesign = {
+  details: DesignDetails;
+  form: FormValues;
+};
+
+export type DesignFileReadResult = { ok: true; design: ImportedDesign } | { ok: false; error: string };
+
+type RawDesignFile = Record<string, unknown> & { schemaVersion: number };
+
+/**
+ * Upgrades a file from the keyed version to the next one. Add an entry whenever the file
+ * layout changes. New `FormValues` fields need no entry: `sanitizeFormValues` fills them
+ * with defaults.
+ */
+const MIGRATIONS: Record<number, (file: RawDesignFile) => RawDesignFile> = {
+  // Version 1 inputs may hold a numeric lb/ft³ salt dose or predate the backwash rate override.
+  1: (file) => ({
+    ...file,
+    schemaVersion: 2,
+    inputs:
+      typeof file.inputs === "object" && file.inputs !== null
+        ? upgradeLegacyFormValues(file.inputs as Record<string, unknown>)
+        : file.inputs,
+  }),
+};
+
+export function createDesignFile(
+  details: DesignDetails,
+  inputs: FormValues,
+  sizing: SizingResult,
+  operatingCosts: OperatingCostProjection,
+): DesignFile {
+  return {
+    kind: DESIGN_FILE_KIND,
+    schemaVersion: DESIGN_FILE_SCHEMA_VERSION,
+    app: { name: appName, version: appVersion },
+    exportedAt: new Date().toISOString(),
+    details,
+    inputs,
+    results: { sizing, operatingCosts },
+  };
+}
+
+export function parseDesignFile(text: string): DesignFileReadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+
+  if (typeof parsed !== "object" || parsed === null || (parsed as Record<string, unknown>).kind !== DESIGN_FILE_KIND) {
+    return { ok: false, error: "The file is not a softener sizer design export." };
+  }
+
+  let file = parsed as RawDesignFile;
+  if (!Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+    return { ok: false, error: "The design file has no valid schema version." };
+  }
+  if (file.schemaVersion > DESIGN_FILE_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      error: `The design file uses schema version ${file.schemaVersion}; this app reads up to version ${DESIGN_FILE_SCHEMA_VERSION}.`,
+    };
+  }
+
+  while (file.schemaVersion < DESIGN_FILE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[file.schemaVersion];
+    if (!migrate) {
+      return { ok: false, error: `No migration is available for schema version ${file.schemaVersion}.` };
+    }
+    file = migrate(file);
+  }
+
+  if (typeof file.inputs !== "object" || file.inputs === null) {
+    return { ok: false, error: "The design file has no inputs." };
+  }
+
+  return {
+    ok: true,
+    design: {
+      details: sanitizeDesignDetails(file.details),
+      form: sanitizeFormValues(file.inputs as Record<string, unknown>),
+    },
+  };
+}
+
+/** File name stem built from the design name, shared by every download. */
+export function designFileSlug(details: DesignDetails): string {
+  const slug = details.name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || "softener-design";
+}
+
+export function designFileName(details: DesignDetails): string {
+  return `${designFileSlug(details)}.json`;
+}
+
+export function downloadDesignFile(file: DesignFile): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = designFileName(file.details);
+  link.click();
+  URL.revokeObjectURL(url);
+}
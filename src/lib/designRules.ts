@@ -0,0 +1,223 @@
+import { estimateBedExpansionPercent, TARGET_EXPANSION_PERCENT } from "@/lib/backwash";
+import { formatNumber, formatQuantity } from "@/lib/format";
+import { analyzeMeteredRegeneration } from "@/lib/metered";
+import { RESIN_PROFILES, SALT_DOSES } from "@/lib/resins";
+import type { SizingInputs, SizingResult } from "@/lib/sizing";
+import { toDisplayUnits, type UnitSystem } from "@/lib/units";
+
+/** `critical` marks a design that should not be built as is; `warning` marks one to review. */
+export type RuleSeverity = "warning" | "critical";
+
+export type DesignRuleViolation = {
+  id: string;
+  severity: RuleSeverity;
+  /** Calculation step the warning is shown on. */
+  step: number;
+  /** What is out of range in this design. */
+  message: string;
+  /** Why the guideline exists. */
+  explanation: string;
+};
+
+type RuleContext = {
+  inputs: SizingInputs;
+  result: SizingResult;
+  unitSystem: UnitSystem;
+};
+
+type DesignRule = {
+  id: string;
+  severity: RuleSeverity;
+  step: number;
+  explanation: string;
+  /** Returns what is wrong, or `null` when the design passes. */
+  check: (context: RuleContext) => string | null;
+};
+
+const BED_DEPTH_MIN_IN = 24;
+const BED_DEPTH_RECOMMENDED_IN = 30;
+const BACKWASH_EXPANSION_MIN_PERCENT = 30;
+const BACKWASH_EXPANSION_MAX_PERCENT = 80;
+const IRON_FOULING_PPM = 1;
+const IRON_PRETREATMENT_PPM = 5;
+const MINUTES_PER_DAY = 1440;
+const DAYS_PER_WEEK = 7;
+
+function serviceLoadingRate({ inputs, result }: RuleContext): number | null {
+  return result.step13ServiceLoadingRate ?? (result.step10BedAreaFt2 !== null ? inputs.serviceLoadingRate : null);
+}
+
+/** Recommended service rates of the selected resin, or of standard gel while a custom profile is incomplete. */
+function serviceRateRange({ inputs }: RuleContext): { min: number; max: number } {
+  const resin = inputs.resin ?? RESIN_PROFILES["standard-gel"];
+  return { min: resin.serviceRateMin, max: resin.serviceRateMax };
+}
+
+function feedIronPpm({ inputs }: RuleContext): number | null {
+  if (inputs.waterAnalysis) {
+    return inputs.waterAnalysis.ironMgL;
+  }
+  return inputs.useCompensation ? inputs.ironPpm : null;
+}
+
+export const DESIGN_RULES: DesignRule[] = [
+  {
+    id: "service-loading-high",
+    severity: "warning",
+    step: 13,
+    explanation:
+      "Above the resin's recommended rate the contact time is too short for the exchange front to stay in the bed, so hardness leaks early and pressure drop climbs.",
+    check: (context) => {
+      const rate = serviceLoadingRate(context);
+      const { max } = serviceRateRange(context);
+      return rate !== null && rate > max
+        ? `Service loading of ${formatQuantity(rate, "loadingRate", context.unitSystem, 2)} is above the resin's recommended ${formatQuantity(max, "loadingRate", context.unitSystem, 1)}.`
+        : null;
+    },
+  },
+  {
+    id: "service-loading-low",
+    severity: "warning",
+    step: 13,
+    explanation:
+      "Below the resin's recommended rate at peak flow the water does not spread evenly across the bed, so it channels and bypasses resin; the vessel is also larger than it needs to be.",
+    check: (context) => {
+      const rate = serviceLoadingRate(context);
+      const { min } = serviceRateRange(context);
+      return rate !== null && rate < min
+        ? `Service loading of ${formatQuantity(rate, "loadingRate", context.unitSystem, 2)} is below the resin's recommended ${formatQuantity(min, "loadingRate", context.unitSystem, 1)}.`
+        : null;
+    },
+  },
+  {
+    id: "bed-depth-minimum",
+    severity: "critical",
+    step: 13,
+    explanation:
+      "A bed shallower than 24 inches cannot hold a complete exchange zone, so leakage rises sharply and the rated capacity is not reached.",
+    check: ({ result, unitSystem }) =>
+      result.step13BedDepthIn !== null && result.step13BedDepthIn < BED_DEPTH_MIN_IN
+        ? `Bed depth of ${formatQuantity(result.step13BedDepthIn, "length", unitSystem, 1)} is below the ${formatQuantity(BED_DEPTH_MIN_IN, "length", unitSystem, 0)} minimum. Use a narrower, taller vessel or more resin.`
+        : null,
+  },
+  {
+    id: "bed-depth-recommended",
+    severity: "warning",
+    step: 13,
+    explanation: "Industrial softeners are normally built with at least 30 inches of resin to leave margin for flow spikes and resin attrition.",
+    check: ({ result, unitSystem }) =>
+      result.step13BedDepthIn !== null &&
+      result.step13BedDepthIn >= BED_DEPTH_MIN_IN &&
+      result.step13BedDepthIn < BED_DEPTH_RECOMMENDED_IN
+        ? `Bed depth of ${formatQuantity(result.step13BedDepthIn, "length", unitSystem, 1)} is below the recommended ${formatQuantity(BED_DEPTH_RECOMMENDED_IN, "length", unitSystem, 0)}.`
+        : null,
+  },
+  {
+    id: "backwash-expansion",
+    severity: "warning",
+    step: 12,
+    explanation:
+      "Backwash should lift the bed by about 50% to flush fines and reclassify the resin. Cold water is more viscous and lifts the bed at lower rates; too little expansion leaves dirt behind, too much carries resin to drain.",
+    check: ({ inputs, result, unitSystem }) => {
+      const temperatureF = inputs.waterTemperatureF;
+      const rate = result.step12BackwashRate;
+      if (temperatureF === null || rate === null || result.step12BackwashFlowGpm === null || !inputs.resin) {
+        return null;
+      }
+      const expansion = estimateBedExpansionPercent(rate, temperatureF, inputs.resin);
+      if (expansion >= BACKWASH_EXPANSION_MIN_PERCENT && expansion <= BACKWASH_EXPANSION_MAX_PERCENT) {
+        return null;
+      }
+      return `A backwash rate of ${formatQuantity(rate, "loadingRate", unitSystem, 1)} at ${formatQuantity(temperatureF, "temperature", unitSystem, 0)} expands the bed about ${formatNumber(expansion, 0)}%; aim for ${BACKWASH_EXPANSION_MIN_PERCENT}–${BACKWASH_EXPANSION_MAX_PERCENT}%, ideally ${TARGET_EXPANSION_PERCENT}%.`;
+    },
+  },
+  {
+    id: "resin-temperature",
+    severity: "critical",
+    step: 6,
+    explanation:
+      "Above its rated temperature the resin loses exchange sites and its crosslinking breaks down, so capacity falls permanently and the beads fragment.",
+    check: ({ inputs, unitSystem }) =>
+      inputs.resin && inputs.waterTemperatureF !== null && inputs.waterTemperatureF > inputs.resin.maxTemperatureF
+        ? `Water temperature of ${formatQuantity(inputs.waterTemperatureF, "temperature", unitSystem, 0)} is above the ${formatQuantity(inputs.resin.maxTemperatureF, "temperature", unitSystem, 0)} limit of ${inputs.resin.label}.`
+        : null,
+  },
+  {
+    id: "iron-fouling",
+    severity: "warning",
+    step: 2,
+    explanation:
+      "Ferrous iron is exchanged like hardness, but any that oxidizes inside the bed coats the resin and is not removed by brine. Plan on a resin cleaner in the brine.",
+    check: (context) => {
+      const iron = feedIronPpm(context);
+      return iron !== null && iron > IRON_FOULING_PPM && iron <= IRON_PRETREATMENT_PPM
+        ? `Iron of ${formatNumber(iron, 2)} ppm is above ${IRON_FOULING_PPM} ppm; expect resin fouling without a cleaner.`
+        : null;
+    },
+  },
+  {
+    id: "iron-pretreatment",
+    severity: "critical",
+    step: 2,
+    explanation: "Above about 5 ppm iron, a softener cannot keep the resin clean. Remove iron ahead of the softener with an oxidizing filter.",
+    check: (context) => {
+      const iron = feedIronPpm(context);
+      return iron !== null && iron > IRON_PRETREATMENT_PPM
+        ? `Iron of ${formatNumber(iron, 2)} ppm is above the ${IRON_PRETREATMENT_PPM} ppm a softener should handle.`
+        : null;
+    },
+  },
+  {
+    id: "regeneration-interval",
+    severity: "critical",
+    step: 19,
+    explanation:
+      "Each regeneration has to finish before the next tank exhausts. When it cannot, the standby tank is still regenerating when it is called into service and hard water goes to service. Metered systems are checked at peak-day demand.",
+    check: ({ inputs, result }) => {
+      if (result.step19RegenerationMinutes === null || result.unitsInService === null) {
+        return null;
+      }
+      let minutesBetweenRegenerations: number;
+      if (inputs.regenerationControl === "metered") {
+        const perWeek = analyzeMeteredRegeneration(inputs, result).regenerationsPerWeekPeak;
+        if (perWeek === null) {
+          return null;
+        }
+        minutesBetweenRegenerations = (DAYS_PER_WEEK * MINUTES_PER_DAY) / perWeek;
+      } else if (inputs.daysBetweenRegen === null) {
+        return null;
+      } else {
+        minutesBetweenRegenerations = (inputs.daysBetweenRegen * MINUTES_PER_DAY) / result.unitsInService;
+      }
+      return minutesBetweenRegenerations < result.step19RegenerationMinutes
+        ? `Regenerations are due every ${formatNumber(minutesBetweenRegenerations, 0)} minutes but each one takes ${formatNumber(result.step19RegenerationMinutes, 0)} minutes.`
+        : null;
+    },
+  },
+  {
+    id: "salt-dose-range",
+    severity: "critical",
+    step: 6,
+    explanation: "Working capacity is only known inside the resin's capacity curve. Outside it, capacity and leakage are extrapolations.",
+    check: ({ inputs, unitSystem }) => {
+      const low = SALT_DOSES[0];
+      const high = SALT_DOSES[SALT_DOSES.length - 1];
+      return inputs.saltDose !== null && inputs.saltDose > 0 && (inputs.saltDose < low || inputs.saltDose > high)
+        ? `Salt dose of ${formatQuantity(inputs.saltDose, "saltDose", unitSystem, 1)} is outside the ${formatNumber(toDisplayUnits(low, "saltDose", unitSystem), 0)}–${formatQuantity(high, "saltDose", unitSystem, 0)} capacity curve.`
+        : null;
+    },
+  },
+];
+
+/** Runs every design rule and returns the ones that fail, critical first. */
+export function validateDesign(inputs: SizingInputs, result: SizingResult, unitSystem: UnitSystem): DesignRuleViolation[] {
+  const context: RuleContext = { inputs, result, unitSystem };
+  const violations: DesignRuleViolation[] = [];
+  for (const rule of DESIGN_RULES) {
+    const message = rule.check(context);
+    if (message) {
+      violations.push({ id: rule.id, severity: rule.severity, step: rule.step, message, explanation: rule.explanation });
+    }
+  }
+  return violations.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "critical" ? -1 : 1));
+}
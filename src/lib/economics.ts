@@ -0,0 +1,133 @@
+import { analyzeMeteredRegeneration } from "@/lib/metered";
+import { isPositive, type SizingInputs, type SizingResult } from "@/lib/sizing";
+
+export type SaltPriceUnit = "per ton" | "per 40-lb bag";
+
+export const SALT_PRICE_UNITS: SaltPriceUnit[] = ["per ton", "per 40-lb bag"];
+
+export type EconomicsInputs = {
+  saltPrice: number | null;
+  saltPriceUnit: SaltPriceUnit;
+  waterSewerCostPerKgal: number | null;
+  valvePowerWatts: number | null;
+  electricityCostPerKwh: number | null;
+  resinPricePerFt3: number | null;
+  resinReplacementYears: number | null;
+};
+
+/**
+ * Annual consumables for the whole system. Volumes are `null` until the sizing is
+ * complete; cost lines are `null` when their price input is missing or invalid.
+ */
+export type OperatingCostProjection = {
+  regenerationsPerYear: number | null;
+  annualSaltLbs: number | null;
+  annualSaltTons: number | null;
+  annualRegenWaterGallons: number | null;
+  annualSaltCost: number | null;
+  annualWaterCost: number | null;
+  annualElectricityCost: number | null;
+  annualResinCost: number | null;
+  annualOperatingCost: number | null;
+  message: string | null;
+};
+
+const HOURS_PER_YEAR = 8760;
+const LBS_PER_TON = 2000;
+
+function isNonNegative(value: number | null): value is number {
+  return value !== null && value >= 0;
+}
+
+export function saltPricePerLb(price: number, unit: SaltPriceUnit): number {
+  return unit === "per ton" ? price / LBS_PER_TON : price / 40;
+}
+
+/**
+ * With metered control, regenerations follow the average daily use and salt follows the
+ * metered tank; water per regeneration is still the Step 19 cycle for the sized vessel.
+ */
+export function projectOperatingCosts(
+  sizing: SizingInputs,
+  result: SizingResult,
+  economics: EconomicsInputs,
+): OperatingCostProjection {
+  let regenerationsPerYear: number | null = null;
+  let saltLbsPerRegen = result.step8SaltLbsPerRegen;
+  if (sizing.regenerationControl === "metered") {
+    const metered = analyzeMeteredRegeneration(sizing, result);
+    regenerationsPerYear = metered.annualRegenerations;
+    saltLbsPerRegen = metered.saltLbsPerRegen;
+  } else if (isPositive(sizing.daysBetweenRegen) && result.unitsInService !== null) {
+    regenerationsPerYear = (365 / sizing.daysBetweenRegen) * result.unitsInService;
+  }
+
+  let annualSaltLbs: number | null = null;
+  let annualSaltTons: number | null = null;
+  if (regenerationsPerYear !== null && saltLbsPerRegen !== null) {
+    annualSaltLbs = regenerationsPerYear * saltLbsPerRegen;
+    annualSaltTons = annualSaltLbs / LBS_PER_TON;
+  }
+
+  let annualRegenWaterGallons: number | null = null;
+  if (regenerationsPerYear !== null && result.step19WastewaterGallons !== null) {
+    annualRegenWaterGallons = regenerationsPerYear * result.step19WastewaterGallons;
+  }
+
+  let annualSaltCost: number | null = null;
+  if (annualSaltLbs !== null && isNonNegative(economics.saltPrice)) {
+    annualSaltCost = annualSaltLbs * saltPricePerLb(economics.saltPrice, economics.saltPriceUnit);
+  }
+
+  let annualWaterCost: number | null = null;
+  if (annualRegenWaterGallons !== null && isNonNegative(economics.waterSewerCostPerKgal)) {
+    annualWaterCost = (annualRegenWaterGallons / 1000) * economics.waterSewerCostPerKgal;
+  }
+
+  let annualElectricityCost: number | null = null;
+  if (
+    result.totalUnits !== null &&
+    isNonNegative(economics.valvePowerWatts) &&
+    isNonNegative(economics.electricityCostPerKwh)
+  ) {
+    const annualKwh = (economics.valvePowerWatts / 1000) * HOURS_PER_YEAR * result.totalUnits;
+    annualElectricityCost = annualKwh * economics.electricityCostPerKwh;
+  }
+
+  let annualResinCost: number | null = null;
+  if (
+    result.totalResinFt3 !== null &&
+    isNonNegative(economics.resinPricePerFt3) &&
+    isPositive(economics.resinReplacementYears)
+  ) {
+    annualResinCost = (result.totalResinFt3 * economics.resinPricePerFt3) / economics.resinReplacementYears;
+  }
+
+  let annualOperatingCost: number | null = null;
+  let message: string | null = null;
+  if (regenerationsPerYear === null || annualSaltLbs === null || annualRegenWaterGallons === null) {
+    message = "Complete the sizing and regeneration cycle steps to project operating costs.";
+  } else if (
+    annualSaltCost === null ||
+    annualWaterCost === null ||
+    annualElectricityCost === null ||
+    annualResinCost === null
+  ) {
+    message = "Prices cannot be negative and the resin replacement interval must be greater than 0.";
+  } else {
+    annualOperatingCost = annualSaltCost + annualWaterCost + annualElectricityCost + annualResinCost;
+  }
+
+  return {
+    regenerationsPerYear,
+    annualSaltLbs,
+    annualSaltTons,
+    annualRegenWaterGallons,
+    annualSaltCost,
+    annualWaterCost,
+    annualElectricityCost,
+    annualResinCost,
+    annualOperatingCost,
+    message,
+  };
+}
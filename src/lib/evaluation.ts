@@ -0,0 +1,221 @@
+import { formatNumber, formatQuantity } from "@/lib/format";
+import { capacityForSaltDose, RESIN_PROFILES, saltDoseForCapacity, SALT_DOSES } from "@/lib/resins";
+import { isPositive, type SizingInputs, type SizingResult } from "@/lib/sizing";
+import type { UnitSystem } from "@/lib/units";
+
+/** Design a new softener from the demand, or audit one that is already installed. */
+export type SizingMode = "design" | "evaluate";
+
+export const SIZING_MODE_LABELS: Record<SizingMode, string> = {
+  design: "Design a new softener",
+  evaluate: "Evaluate an existing system",
+};
+
+/** What is installed and how it is set, per tank, in US units. */
+export type ExistingSystem = {
+  resinFt3: number | null;
+  tankDiameterIn: number | null;
+  saltLbsPerRegen: number | null;
+  /** Current time-clock setting; `null` skips the undersized and over-salted verdicts. */
+  daysBetweenRegen: number | null;
+};
+
+export type ExistingSystemEvaluation = {
+  /** Salt setting ÷ resin volume (inverse of Step 8). */
+  saltDose: number | null;
+  /** Working capacity at that dose, derated by the water analysis (Step 6). */
+  capacityPerFt3: number | null;
+  /** Grains one tank removes per regeneration before reserve (inverse of Step 7). */
+  grainsPerRegen: number | null;
+  /** Grains all tanks in service remove between regenerations after reserve (inverse of Step 5). */
+  usableGrainsPerRegen: number | null;
+  /** Days the installed capacity lasts at the actual water use (inverse of Steps 3 and 4). */
+  trueDaysBetweenRegen: number | null;
+  bedAreaFt2: number | null;
+  bedDepthIn: number | null;
+  /** Peak flow per tank ÷ bed area (inverse of Steps 10 and 11). */
+  serviceLoadingRate: number | null;
+  /** Step 12 backwash rate across the installed bed area. */
+  backwashFlowGpm: number | null;
+  grainsPerLbSalt: number | null;
+  /** Lowest dose on the resin curve that still carries the current interval. */
+  recommendedSaltDose: number | null;
+  recommendedSaltLbsPerRegen: number | null;
+  annualSaltTons: number | null;
+  recommendedAnnualSaltTons: number | null;
+  /** Hardness breaks through before the clock regenerates, or the flow overloads the bed. */
+  undersized: boolean | null;
+  /** The salt setting is well above the dose the current interval needs. */
+  overSalted: boolean | null;
+  message: string | null;
+};
+
+const DAYS_PER_YEAR = 365;
+const LBS_PER_TON = 2000;
+/** Dose above the needed one, in lb/ft³, before a setting counts as over-salted. */
+const OVER_SALTED_MARGIN = 1;
+
+/**
+ * Runs Steps 3–12 backwards for an installed system: starting from the resin, tank and salt
+ * setting, it finds the capacity per regeneration, how long that lasts at the actual water
+ * use, the service loading and the salt efficiency. The capacity override is ignored so the
+ * capacity follows the salt setting along the resin curve. Doses above the table use the
+ * capacity at the highest table dose, which is about all extra salt achieves.
+ */
+export function evaluateExistingSystem(
+  existing: ExistingSystem,
+  inputs: SizingInputs,
+  result: SizingResult,
+): ExistingSystemEvaluation {
+  const evaluation: ExistingSystemEvaluation = {
+    saltDose: null,
+    capacityPerFt3: null,
+    grainsPerRegen: null,
+    usableGrainsPerRegen: null,
+    trueDaysBetweenRegen: null,
+    bedAreaFt2: null,
+    bedDepthIn: null,
+    serviceLoadingRate: null,
+    backwashFlowGpm: null,
+    grainsPerLbSalt: null,
+    recommendedSaltDose: null,
+    recommendedSaltLbsPerRegen: null,
+    annualSaltTons: null,
+    recommendedAnnualSaltTons: null,
+    undersized: null,
+    overSalted: null,
+    message: null,
+  };
+
+  const { resinFt3, tankDiameterIn, saltLbsPerRegen, daysBetweenRegen } = existing;
+  const unitsInService = result.unitsInService;
+  const resin = inputs.resin ?? RESIN_PROFILES["standard-gel"];
+  const deratingFactor = result.waterAnalysis?.capacityDeratingFactor ?? 1;
+
+  if (isPositive(tankDiameterIn)) {
+    const radiusFt = tankDiameterIn / 2 / 12;
+    evaluation.bedAreaFt2 = Math.PI * radiusFt * radiusFt;
+    if (isPositive(resinFt3)) {
+      evaluation.bedDepthIn = (resinFt3 / evaluation.bedAreaFt2) * 12;
+    }
+    if (isPositive(inputs.peakFlowGpm) && unitsInService !== null) {
+      evaluation.serviceLoadingRate = inputs.peakFlowGpm / unitsInService / evaluation.bedAreaFt2;
+    }
+    if (result.step12BackwashRate !== null) {
+      evaluation.backwashFlowGpm = evaluation.bedAreaFt2 * result.step12BackwashRate;
+    }
+  }
+
+  if (!isPositive(resinFt3) || !isPositive(saltLbsPerRegen)) {
+    evaluation.message = "Enter the installed resin volume and salt setting to back-calculate capacity.";
+    return evaluation;
+  }
+  if (!inputs.resin) {
+    evaluation.message = "Complete the custom resin profile to back-calculate capacity.";
+    return evaluation;
+  }
+
+  const saltDose = saltLbsPerRegen / resinFt3;
+  const highestDose = SALT_DOSES[SALT_DOSES.length - 1];
+  evaluation.saltDose = saltDose;
+  const tableCapacity = capacityForSaltDose(resin, Math.min(saltDose, highestDose));
+  if (tableCapacity === null) {
+    evaluation.message = "The salt setting is below the lowest dose on the resin's capacity curve, so its capacity cannot be estimated.";
+    return evaluation;
+  }
+
+  const capacityPerFt3 = tableCapacity * deratingFactor;
+  evaluation.capacityPerFt3 = capacityPerFt3;
+  evaluation.grainsPerRegen = resinFt3 * capacityPerFt3;
+  evaluation.grainsPerLbSalt = evaluation.grainsPerRegen / saltLbsPerRegen;
+
+  const reservePercent = inputs.reservePercent ?? 0;
+  if (reservePercent < 0 || reservePercent >= 100) {
+    evaluation.message = "Reserve Capacity must be at least 0% and below 100% to find the true regeneration interval.";
+    return evaluation;
+  }
+  if (unitsInService === null) {
+    evaluation.message = "Fix the system configuration to find the true regeneration interval.";
+    return evaluation;
+  }
+  evaluation.usableGrainsPerRegen = evaluation.grainsPerRegen * unitsInService * (1 - reservePercent / 100);
+
+  if (result.step3GrainsPerDay === null) {
+    evaluation.message = "Enter the water hardness and actual water use to find the true regeneration interval.";
+    return evaluation;
+  }
+  evaluation.trueDaysBetweenRegen = evaluation.usableGrainsPerRegen / result.step3GrainsPerDay;
+
+  const overloaded = evaluation.serviceLoadingRate !== null && evaluation.serviceLoadingRate > resin.serviceRateMax;
+  if (!isPositive(daysBetweenRegen)) {
+    evaluation.undersized = overloaded ? true : null;
+    evaluation.message = "Enter the current regeneration interval to check for undersizing and over-salting.";
+    return evaluation;
+  }
+
+  evaluation.undersized = evaluation.trueDaysBetweenRegen < daysBetweenRegen || overloaded;
+  evaluation.annualSaltTons = ((DAYS_PER_YEAR / daysBetweenRegen) * unitsInService * saltLbsPerRegen) / LBS_PER_TON;
+
+  const neededCapacityPerFt3 =
+    (result.step3GrainsPerDay * daysBetweenRegen) / (1 - reservePercent / 100) / unitsInService / resinFt3 / deratingFactor;
+  const recommendedSaltDose = saltDoseForCapacity(resin, neededCapacityPerFt3);
+  if (recommendedSaltDose === null) {
+    evaluation.overSalted = false;
+    return evaluation;
+  }
+  evaluation.recommendedSaltDose = recommendedSaltDose;
+  evaluation.recommendedSaltLbsPerRegen = recommendedSaltDose * resinFt3;
+  evaluation.recommendedAnnualSaltTons =
+    ((DAYS_PER_YEAR / daysBetweenRegen) * unitsInService * evaluation.recommendedSaltLbsPerRegen) / LBS_PER_TON;
+  evaluation.overSalted = saltDose > recommendedSaltDose + OVER_SALTED_MARGIN;
+  return evaluation;
+}
+
+/** Plain-language verdicts for an evaluation: what is wrong with the installed unit and what to change. */
+export function describeEvaluationFindings(
+  evaluation: ExistingSystemEvaluation,
+  existing: ExistingSystem,
+  inputs: SizingInputs,
+  unitSystem: UnitSystem,
+): string[] {
+  const findings: string[] = [];
+  const resin = inputs.resin ?? RESIN_PROFILES["standard-gel"];
+  const highestDose = SALT_DOSES[SALT_DOSES.length - 1];
+
+  if (
+    evaluation.trueDaysBetweenRegen !== null &&
+    isPositive(existing.daysBetweenRegen) &&
+    evaluation.trueDaysBetweenRegen < existing.daysBetweenRegen
+  ) {
+    const remedy =
+      evaluation.recommendedSaltDose !== null && evaluation.recommendedSaltLbsPerRegen !== null
+        ? `Raising the salt setting to ${formatQuantity(evaluation.recommendedSaltLbsPerRegen, "saltMass", unitSystem, 1)} per regeneration (${formatQuantity(evaluation.recommendedSaltDose, "saltDose", unitSystem, 1)}) would carry it.`
+        : "Even the highest salt dose cannot carry it; regenerate more often or add resin.";
+    findings.push(
+      `Undersized for capacity: the resin lasts about ${formatNumber(evaluation.trueDaysBetweenRegen, 1)} days at the actual water use, so hardness breaks through before the ${formatNumber(existing.daysBetweenRegen, 1)}-day regeneration. ${remedy}`,
+    );
+  }
+  if (evaluation.serviceLoadingRate !== null && evaluation.serviceLoadingRate > resin.serviceRateMax) {
+    findings.push(
+      `Undersized for flow: service loading of ${formatQuantity(evaluation.serviceLoadingRate, "loadingRate", unitSystem, 2)} is above the resin's recommended ${formatQuantity(resin.serviceRateMax, "loadingRate", unitSystem, 1)}.`,
+    );
+  }
+  if (evaluation.saltDose !== null && evaluation.saltDose > highestDose) {
+    findings.push(
+      `The salt setting works out to ${formatQuantity(evaluation.saltDose, "saltDose", unitSystem, 1)}, above the top of the capacity curve; the extra salt adds little capacity.`,
+    );
+  }
+  if (evaluation.overSalted && evaluation.recommendedSaltDose !== null && evaluation.recommendedSaltLbsPerRegen !== null) {
+    const saving =
+      evaluation.annualSaltTons !== null && evaluation.recommendedAnnualSaltTons !== null
+        ? ` and save about ${formatQuantity(evaluation.annualSaltTons - evaluation.recommendedAnnualSaltTons, "saltMassLarge", unitSystem, 2)} of salt a year`
+        : "";
+    findings.push(
+      `Over-salted: ${formatQuantity(evaluation.recommendedSaltDose, "saltDose", unitSystem, 1)} (${formatQuantity(evaluation.recommendedSaltLbsPerRegen, "saltMass", unitSystem, 1)} per regeneration) would still carry the current interval${saving}.`,
+    );
+  }
+  if (evaluation.undersized === false && evaluation.overSalted === false && findings.length === 0) {
+    findings.push("The installed unit carries the actual water use at its current settings without excess salt.");
+  }
+  return findings;
+}
@@ -0,0 +1,492 @@
+import { SALT_TYPE_LABELS, type SaltType } from "@/lib/brineTanks";
+import { type EconomicsInputs, SALT_PRICE_UNITS, type SaltPriceUnit } from "@/lib/economics";
+import { type ExistingSystem, SIZING_MODE_LABELS, type SizingMode } from "@/lib/evaluation";
+import { REGENERATION_MODE_LABELS, type RegenerationMode } from "@/lib/leakage";
+import { REGENERATION_CONTROL_LABELS, type RegenerationControl } from "@/lib/metered";
+import { CUSTOM_RESIN_LABEL, RESIN_PROFILES, RESIN_TYPES, type ResinProfile, type ResinType, SALT_DOSES } from "@/lib/resins";
+import { HARDNESS_UNITS, type HardnessUnit, type SizingInputs, SYSTEM_CONFIG_LABELS, type SystemConfig } from "@/lib/sizing";
+import { STANDARD_TANKS } from "@/lib/tanks";
+import { fromDisplayUnits, type Quantity, toDisplayUnits, UNIT_SYSTEM_LABELS, type UnitSystem } from "@/lib/units";
+import type { WaterAnalysis } from "@/lib/waterAnalysis";
+
+/**
+ * Raw form state. Numeric strings are held in the units of `unitSystem` exactly as typed;
+ * `toSizingInputs` and `toEconomicsInputs` convert them to the engine's US units.
+ */
+export type FormValues = {
+  unitSystem: UnitSystem;
+  sizingMode: SizingMode;
+  /** Installed resin per tank, evaluated when `sizingMode` is "evaluate". */
+  existingResinVolume: string;
+  existingTankDiameter: string;
+  existingSaltPerRegen: string;
+  existingDaysBetweenRegen: string;
+  hardnessValue: string;
+  hardnessUnits: HardnessUnit;
+  useWaterAnalysis: boolean;
+  calciumMgL: string;
+  magnesiumMgL: string;
+  sodiumMgL: string;
+  potassiumMgL: string;
+  bicarbonateMgL: string;
+  chlorideMgL: string;
+  sulfateMgL: string;
+  nitrateMgL: string;
+  tdsMgL: string;
+  ph: string;
+  useCompensation: boolean;
+  ironPpm: string;
+  manganesePpm: string;
+  gallonsPerDay: string;
+  daysBetweenRegen: string;
+  reservePercent: string;
+  regenerationControl: RegenerationControl;
+  /** Catalog model the meter is set for; empty uses the vessel selected in Step 13. */
+  meteredTankModel: string;
+  peakDayGallons: string;
+  resinType: ResinType;
+  customResinName: string;
+  customResinCapacity4: string;
+  customResinCapacity6: string;
+  customResinCapacity8: string;
+  customResinCapacity10: string;
+  customResinCapacity12: string;
+  customResinCapacity15: string;
+  customResinMaxTemperature: string;
+  customResinServiceRateMin: string;
+  customResinServiceRateMax: string;
+  customResinBackwashRate: string;
+  saltDose: string;
+  overrideCapacity: boolean;
+  overrideCapacityValue: string;
+  saltDissolutionFactor: string;
+  regenerationMode: RegenerationMode;
+  effluentTargetMgL: string;
+  peakFlowGpm: string;
+  serviceLoadingRate: string;
+  overrideBackwashRate: boolean;
+  backwashRate: string;
+  waterTemperature: string;
+  backwashExpansionPercent: string;
+  systemConfig: SystemConfig;
+  unitsInService: string;
+  backwashMinutes: string;
+  brineConcentrationPercent: string;
+  brineDrawRate: string;
+  slowRinseBedVolumes: string;
+  fastRinseRate: string;
+  fastRinseMinutes: string;
+  saltType: SaltType;
+  refillIntervalDays: string;
+  saltPrice: string;
+  saltPriceUnit: SaltPriceUnit;
+  waterSewerCostPerKgal: string;
+  valvePowerWatts: string;
+  electricityCostPerKwh: string;
+  resinPricePerFt3: string;
+  resinReplacementYears: string;
+};
+
+export const DEFAULT_VALUES: FormValues = {
+  unitSystem: "us",
+  sizingMode: "design",
+  existingResinVolume: "",
+  existingTankDiameter: "",
+  existingSaltPerRegen: "",
+  existingDaysBetweenRegen: "",
+  hardnessValue: "",
+  hardnessUnits: "mg/L (ppm) as CaCO₃",
+  useWaterAnalysis: false,
+  calciumMgL: "",
+  magnesiumMgL: "",
+  sodiumMgL: "",
+  potassiumMgL: "",
+  bicarbonateMgL: "",
+  chlorideMgL: "",
+  sulfateMgL: "",
+  nitrateMgL: "",
+  tdsMgL: "",
+  ph: "",
+  useCompensation: false,
+  ironPpm: "0",
+  manganesePpm: "0",
+  gallonsPerDay: "",
+  daysBetweenRegen: "",
+  reservePercent: "15",
+  regenerationControl: "time-clock",
+  meteredTankModel: "",
+  peakDayGallons: "",
+  resinType: "standard-gel",
+  customResinName: "",
+  customResinCapacity4: "",
+  customResinCapacity6: "",
+  customResinCapacity8: "",
+  customResinCapacity10: "",
+  customResinCapacity12: "",
+  customResinCapacity15: "",
+  customResinMaxTemperature: "",
+  customResinServiceRateMin: "",
+  customResinServiceRateMax: "",
+  customResinBackwashRate: "",
+  saltDose: "8",
+  overrideCapacity: false,
+  overrideCapacityValue: "",
+  saltDissolutionFactor: "3",
+  regenerationMode: "co-current",
+  effluentTargetMgL: "",
+  peakFlowGpm: "",
+  serviceLoadingRate: "7",
+  overrideBackwashRate: false,
+  backwashRate: "7",
+  waterTemperature: "60",
+  backwashExpansionPercent: "50",
+  systemConfig: "single",
+  unitsInService: "2",
+  backwashMinutes: "10",
+  brineConcentrationPercent: "10",
+  brineDrawRate: "0.5",
+  slowRinseBedVolumes: "2",
+  fastRinseRate: "5",
+  fastRinseMinutes: "8",
+  saltType: "solar",
+  refillIntervalDays: "14",
+  saltPrice: "150",
+  saltPriceUnit: "per ton",
+  waterSewerCostPerKgal: "10",
+  valvePowerWatts: "10",
+  electricityCostPerKwh: "0.15",
+  resinPricePerFt3: "150",
+  resinReplacementYears: "7",
+};
+
+export function parseInputNumber(value: string): number | null {
+  if (value.trim() === "") {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Allowed values for every field typed as a string union; validated on restore. */
+const ENUM_FIELD_OPTIONS: Partial<Record<keyof FormValues, readonly string[]>> = {
+  unitSystem: Object.keys(UNIT_SYSTEM_LABELS),
+  sizingMode: Object.keys(SIZING_MODE_LABELS),
+  hardnessUnits: HARDNESS_UNITS,
+  regenerationMode: Object.keys(REGENERATION_MODE_LABELS),
+  regenerationControl: Object.keys(REGENERATION_CONTROL_LABELS),
+  meteredTankModel: ["", ...STANDARD_TANKS.map((tank) => tank.model)],
+  resinType: RESIN_TYPES,
+  systemConfig: Object.keys(SYSTEM_CONFIG_LABELS),
+  saltType: Object.keys(SALT_TYPE_LABELS),
+  saltPriceUnit: SALT_PRICE_UNITS,
+};
+
+function sanitizeField(key: keyof FormValues, value: unknown): FormValues[keyof FormValues] | undefined {
+  const fallback = DEFAULT_VALUES[key];
+
+  if (typeof fallback === "boolean") {
+    if (value === true || value === "1" || value === "true") {
+      return true;
+    }
+    if (value === false || value === "0" || value === "false") {
+      return false;
+    }
+    return undefined;
+  }
+
+  if (key === "customResinName") {
+    return typeof value === "string" ? value : undefined;
+  }
+
+  const options = ENUM_FIELD_OPTIONS[key];
+  if (options) {
+    return typeof value === "string" && options.includes(value) ? (value as FormValues[keyof FormValues]) : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value === "string" && (value.trim() === "" || parseInputNumber(value) !== null)) {
+    return value;
+  }
+  return undefined;
+}
+
+/** True when raw form data holds a backwash rate other than the default, in its own unit system. */
+function hasCustomBackwashRate(raw: Partial<Record<keyof FormValues, unknown>>): boolean {
+  const value =
+    typeof raw.backwashRate === "number" ? raw.backwashRate : typeof raw.backwashRate === "string" ? parseInputNumber(raw.backwashRate) : null;
+  if (value === null || !Number.isFinite(value)) {
+    return false;
+  }
+  const unitSystem: UnitSystem = raw.unitSystem === "metric" ? "metric" : "us";
+  return Math.abs(fromDisplayUnits(value, "loadingRate", unitSystem) - Number(DEFAULT_VALUES.backwashRate)) > 1e-4;
+}
+
+/**
+ * Rewrites form data saved by earlier releases into the current field layout, ahead of
+ * `sanitizeFormValues`. Design files apply it as a schema migration; share links and the
+ * browser library carry no version, so they apply it on every restore. Current data passes
+ * through unchanged.
+ */
+export function upgradeLegacyFormValues(raw: Partial<Record<keyof FormValues, unknown>>): Partial<Record<keyof FormValues, unknown>> {
+  const upgraded = { ...raw };
+  // Before resin capacity curves the salt dose was a table dose in lb/ft³ in every unit system.
+  if (typeof raw.saltDose === "number" && Number.isFinite(raw.saltDose)) {
+    const unitSystem: UnitSystem = raw.unitSystem === "metric" ? "metric" : "us";
+    upgraded.saltDose = formatInputValue(raw.saltDose, "saltDose", unitSystem);
+  }
+  // Before temperature-corrected backwash, Step 12 always used the entered backwash rate.
+  if (upgraded.overrideBackwashRate === undefined && hasCustomBackwashRate(raw)) {
+    upgraded.overrideBackwashRate = true;
+  }
+  return upgraded;
+}
+
+/**
+ * Builds a complete `FormValues` from untrusted data (URL, storage, files). Each field is
+ * checked against its type and union members; anything missing or invalid keeps its default.
+ */
+export function sanitizeFormValues(raw: Partial<Record<keyof FormValues, unknown>>): FormValues {
+  const form: FormValues = { ...DEFAULT_VALUES };
+  for (const key of Object.keys(DEFAULT_VALUES) as (keyof FormValues)[]) {
+    const value = sanitizeField(key, raw[key]);
+    if (value !== undefined) {
+      (form as Record<keyof FormValues, unknown>)[key] = value;
+    }
+  }
+  return form;
+}
+
+type NumericField = {
+  [K in keyof FormValues]: string extends FormValues[K] ? K : never;
+}[keyof FormValues];
+
+/** Form fields whose value depends on the unit system. Fields not listed are unit-free. */
+const FIELD_QUANTITIES: Partial<Record<NumericField, Quantity>> = {
+  waterTemperature: "temperature",
+  existingResinVolume: "resinVolume",
+  existingTankDiameter: "length",
+  existingSaltPerRegen: "saltMass",
+  gallonsPerDay: "dailyVolume",
+  peakDayGallons: "dailyVolume",
+  saltDose: "saltDose",
+  customResinCapacity4: "capacity",
+  customResinCapacity6: "capacity",
+  customResinCapacity8: "capacity",
+  customResinCapacity10: "capacity",
+  customResinCapacity12: "capacity",
+  customResinCapacity15: "capacity",
+  customResinMaxTemperature: "temperature",
+  customResinServiceRateMin: "loadingRate",
+  customResinServiceRateMax: "loadingRate",
+  customResinBackwashRate: "loadingRate",
+  overrideCapacityValue: "capacity",
+  saltDissolutionFactor: "dissolution",
+  peakFlowGpm: "flow",
+  serviceLoadingRate: "loadingRate",
+  backwashRate: "loadingRate",
+  brineDrawRate: "brineDrawRate",
+  fastRinseRate: "loadingRate",
+  waterSewerCostPerKgal: "priceWaterVolume",
+  resinPricePerFt3: "priceResinVolume",
+};
+
+function fieldQuantity(form: FormValues, key: NumericField): Quantity | null {
+  if (key === "saltPrice") {
+    return form.saltPriceUnit === "per ton" ? "priceSaltMass" : null;
+  }
+  return FIELD_QUANTITIES[key] ?? null;
+}
+
+/** Parses a numeric field and converts it from the form's unit system to US units. */
+function parseField(form: FormValues, key: NumericField): number | null {
+  const value = parseInputNumber(form[key]);
+  const quantity = fieldQuantity(form, key);
+  if (value === null || quantity === null) {
+    return value;
+  }
+  return fromDisplayUnits(value, quantity, form.unitSystem);
+}
+
+function formatConvertedInput(value: number): string {
+  return String(Number(value.toPrecision(7)));
+}
+
+/** A US-unit value as form text in `unitSystem`. */
+export function formatInputValue(value: number, quantity: Quantity, unitSystem: UnitSystem): string {
+  return formatConvertedInput(toDisplayUnits(value, quantity, unitSystem));
+}
+
+/** Re-expresses typed text from one unit system in another; blank or invalid text is kept as is. */
+export function convertInputValue(value: string, quantity: Quantity, from: UnitSystem, to: UnitSystem): string {
+  const parsed = parseInputNumber(value);
+  if (parsed === null || from === to) {
+    return value;
+  }
+  return formatInputValue(fromDisplayUnits(parsed, quantity, from), quantity, to);
+}
+
+/** Re-expresses every unit-dependent field in `unitSystem` so the design itself is unchanged. */
+export function convertFormUnits(form: FormValues, unitSystem: UnitSystem): FormValues {
+  if (form.unitSystem === unitSystem) {
+    return form;
+  }
+
+  const converted: FormValues = { ...form, unitSystem };
+  const fields = [...Object.keys(FIELD_QUANTITIES), "saltPrice"] as NumericField[];
+  for (const field of fields) {
+    const quantity = fieldQuantity(form, field);
+    const usValue = parseField(form, field);
+    if (quantity !== null && usValue !== null) {
+      converted[field] = formatConvertedInput(toDisplayUnits(usValue, quantity, unitSystem));
+    }
+  }
+  return converted;
+}
+
+/** Custom resin form field holding the capacity at each table salt dose. */
+export const CUSTOM_RESIN_CAPACITY_FIELDS = {
+  4: "customResinCapacity4",
+  6: "customResinCapacity6",
+  8: "customResinCapacity8",
+  10: "customResinCapacity10",
+  12: "customResinCapacity12",
+  15: "customResinCapacity15",
+} as const satisfies Record<(typeof SALT_DOSES)[number], NumericField>;
+
+/**
+ * The custom resin entered on the form, in US units. Returns `null` until every capacity
+ * point, the temperature limit, the service rates and the backwash rate are entered.
+ */
+export function toCustomResinProfile(form: FormValues): ResinProfile | null {
+  const capacities = SALT_DOSES.map((dose) => parseField(form, CUSTOM_RESIN_CAPACITY_FIELDS[dose]));
+  const maxTemperatureF = parseField(form, "customResinMaxTemperature");
+  const serviceRateMin = parseField(form, "customResinServiceRateMin");
+  const serviceRateMax = parseField(form, "customResinServiceRateMax");
+  const backwashRate50At68F = parseField(form, "customResinBackwashRate");
+  if (
+    capacities.some((capacity) => capacity === null || capacity <= 0) ||
+    maxTemperatureF === null ||
+    serviceRateMin === null ||
+    serviceRateMin <= 0 ||
+    serviceRateMax === null ||
+    serviceRateMax < serviceRateMin ||
+    backwashRate50At68F === null ||
+    backwashRate50At68F <= 0
+  ) {
+    return null;
+  }
+
+  const [c4, c6, c8, c10, c12, c15] = capacities as number[];
+  return {
+    label: form.customResinName.trim() || CUSTOM_RESIN_LABEL,
+    capacityBySaltDose: { 4: c4, 6: c6, 8: c8, 10: c10, 12: c12, 15: c15 },
+    maxTemperatureF,
+    serviceRateMin,
+    serviceRateMax,
+    backwashRate50At68F,
+  };
+}
+
+/** The selected resin: a built-in profile, or the custom one when it is complete. */
+export function selectedResinProfile(form: FormValues): ResinProfile | null {
+  return form.resinType === "custom" ? toCustomResinProfile(form) : RESIN_PROFILES[form.resinType];
+}
+
+/** Form values that load `profile` into the custom resin fields, expressed in `unitSystem`. */
+export function customResinFormValues(profile: ResinProfile, unitSystem: UnitSystem): Partial<FormValues> {
+  const display = (value: number, quantity: Quantity) => formatInputValue(value, quantity, unitSystem);
+  const values: Partial<FormValues> = {
+    resinType: "custom",
+    customResinName: profile.label,
+    customResinMaxTemperature: display(profile.maxTemperatureF, "temperature"),
+    customResinServiceRateMin: display(profile.serviceRateMin, "loadingRate"),
+    customResinServiceRateMax: display(profile.serviceRateMax, "loadingRate"),
+    customResinBackwashRate: display(profile.backwashRate50At68F, "loadingRate"),
+  };
+  for (const dose of SALT_DOSES) {
+    values[CUSTOM_RESIN_CAPACITY_FIELDS[dose]] = display(profile.capacityBySaltDose[dose], "capacity");
+  }
+  return values;
+}
+
+function toWaterAnalysis(form: FormValues): WaterAnalysis {
+  return {
+    calciumMgL: parseInputNumber(form.calciumMgL),
+    magnesiumMgL: parseInputNumber(form.magnesiumMgL),
+    sodiumMgL: parseInputNumber(form.sodiumMgL),
+    potassiumMgL: parseInputNumber(form.potassiumMgL),
+    ironMgL: parseInputNumber(form.ironPpm),
+    manganeseMgL: parseInputNumber(form.manganesePpm),
+    bicarbonateMgL: parseInputNumber(form.bicarbonateMgL),
+    chlorideMgL: parseInputNumber(form.chlorideMgL),
+    sulfateMgL: parseInputNumber(form.sulfateMgL),
+    nitrateMgL: parseInputNumber(form.nitrateMgL),
+    tdsMgL: parseInputNumber(form.tdsMgL),
+    ph: parseInputNumber(form.ph),
+  };
+}
+
+export function toSizingInputs(form: FormValues): SizingInputs {
+  return {
+    hardnessValue: parseInputNumber(form.hardnessValue),
+    hardnessUnits: form.hardnessUnits,
+    waterAnalysis: form.useWaterAnalysis ? toWaterAnalysis(form) : null,
+    useCompensation: form.useCompensation,
+    ironPpm: parseInputNumber(form.ironPpm),
+    manganesePpm: parseInputNumber(form.manganesePpm),
+    gallonsPerDay: parseField(form, "gallonsPerDay"),
+    daysBetweenRegen: parseInputNumber(form.daysBetweenRegen),
+    reservePercent: parseInputNumber(form.reservePercent),
+    regenerationControl: form.regenerationControl,
+    meteredTankModel: form.meteredTankModel || null,
+    peakDayGallons: parseField(form, "peakDayGallons"),
+    saltDose: parseField(form, "saltDose"),
+    resin: selectedResinProfile(form),
+    overrideCapacity: form.overrideCapacity,
+    overrideCapacityValue: parseField(form, "overrideCapacityValue"),
+    saltDissolutionFactor: parseField(form, "saltDissolutionFactor"),
+    peakFlowGpm: parseField(form, "peakFlowGpm"),
+    serviceLoadingRate: parseField(form, "serviceLoadingRate"),
+    backwashRate: parseField(form, "backwashRate"),
+    overrideBackwashRate: form.overrideBackwashRate,
+    waterTemperatureF: parseField(form, "waterTemperature"),
+    backwashExpansionPercent: parseInputNumber(form.backwashExpansionPercent),
+    systemConfig: form.systemConfig,
+    unitsInService: parseInputNumber(form.unitsInService),
+    backwashMinutes: parseInputNumber(form.backwashMinutes),
+    brineConcentrationPercent: parseInputNumber(form.brineConcentrationPercent),
+    brineDrawRate: parseField(form, "brineDrawRate"),
+    slowRinseBedVolumes: parseInputNumber(form.slowRinseBedVolumes),
+    fastRinseRate: parseField(form, "fastRinseRate"),
+    fastRinseMinutes: parseInputNumber(form.fastRinseMinutes),
+    regenerationMode: form.regenerationMode,
+    feedTdsMgL: parseInputNumber(form.tdsMgL),
+    effluentTargetMgL: parseInputNumber(form.effluentTargetMgL),
+    saltType: form.saltType,
+    refillIntervalDays: parseInputNumber(form.refillIntervalDays),
+  };
+}
+
+export function toExistingSystem(form: FormValues): ExistingSystem {
+  return {
+    resinFt3: parseField(form, "existingResinVolume"),
+    tankDiameterIn: parseField(form, "existingTankDiameter"),
+    saltLbsPerRegen: parseField(form, "existingSaltPerRegen"),
+    daysBetweenRegen: parseInputNumber(form.existingDaysBetweenRegen),
+  };
+}
+
+export function toEconomicsInputs(form: FormValues): EconomicsInputs {
+  return {
+    saltPrice: parseField(form, "saltPrice"),
+    saltPriceUnit: form.saltPriceUnit,
+    waterSewerCostPerKgal: parseField(form, "waterSewerCostPerKgal"),
+    valvePowerWatts: parseInputNumber(form.valvePowerWatts),
+    electricityCostPerKwh: parseInputNumber(form.electricityCostPerKwh),
+    resinPricePerFt3: parseField(form, "resinPricePerFt3"),
+    resinReplacementYears: parseInputNumber(form.resinReplacementYears),
+  };
+}
@@ -0,0 +1,48 @@
+import { type Quantity, toDisplayUnits, UNIT_LABELS, type UnitSystem } from "@/lib/units";
+
+export function formatNumber(value: number, decimals = 2): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: decimals,
+  }).format(value);
+}
+
+export function formatResult(value: number | null, unit: string, decimals = 2): string {
+  if (value === null) {
+    return "—";
+  }
+
+  return `${formatNumber(value, decimals)} ${unit}`;
+}
+
+export function formatCurrency(value: number | null): string {
+  if (value === null) {
+    return "—";
+  }
+
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+/** Metric values that land near 1 (eq/L capacity) need more digits than their US counterparts. */
+const METRIC_MIN_DECIMALS: Partial<Record<Quantity, number>> = {
+  capacity: 3,
+  lengthLarge: 2,
+};
+
+/** Catalog tank size as diameter × height, e.g. "24 × 72 in" or "610 × 1,829 mm". */
+export function formatTankSize(diameterIn: number, heightIn: number, system: UnitSystem): string {
+  const length = (value: number) => formatNumber(toDisplayUnits(value, "length", system), 0);
+  return `${length(diameterIn)} × ${length(heightIn)} ${UNIT_LABELS[system].length}`;
+}
+
+export function formatQuantity(value: number | null, quantity: Quantity, system: UnitSystem, decimals = 2): string {
+  if (value === null) {
+    return "—";
+  }
+
+  const digits = system === "metric" ? Math.max(decimals, METRIC_MIN_DECIMALS[quantity] ?? 0) : decimals;
+  return formatResult(toDisplayUnits(value, quantity, system), UNIT_LABELS[system][quantity], digits);
+}
@@ -0,0 +1,147 @@
+import { SALT_TYPE_LABELS } from "@/lib/brineTanks";
+import { CUSTOM_RESIN_CAPACITY_FIELDS, type FormValues } from "@/lib/form";
+import { formatNumber, formatTankSize } from "@/lib/format";
+import { SIZING_MODE_LABELS } from "@/lib/evaluation";
+import { REGENERATION_MODE_LABELS } from "@/lib/leakage";
+import { REGENERATION_CONTROL_LABELS } from "@/lib/metered";
+import { CUSTOM_RESIN_LABEL, RESIN_PROFILES, SALT_DOSES } from "@/lib/resins";
+import { SYSTEM_CONFIG_LABELS } from "@/lib/sizing";
+import { STANDARD_TANKS } from "@/lib/tanks";
+import { toDisplayUnits, UNIT_LABELS, UNIT_SYSTEM_LABELS } from "@/lib/units";
+
+export type InputRow = {
+  section: string;
+  label: string;
+  value: string;
+  /** Empty for unit-free values such as yes/no answers and selections. */
+  unit: string;
+};
+
+/**
+ * Lists the design inputs as entered, in the form's unit system and section order. Fields the
+ * form hides (raw hardness with an analysis, iron and manganese without compensation or an
+ * analysis, the capacity override value, units in service for fixed configurations) are left
+ * out because the calculation ignores them.
+ */
+export function describeInputs(form: FormValues): InputRow[] {
+  const units = UNIT_LABELS[form.unitSystem];
+  const rows: InputRow[] = [];
+  const add = (section: string, label: string, value: string, unit = "") => {
+    rows.push({ section, label, value: value.trim() || "—", unit });
+  };
+
+  add("General", "Unit system", UNIT_SYSTEM_LABELS[form.unitSystem]);
+  add("General", "Mode", SIZING_MODE_LABELS[form.sizingMode]);
+
+  if (form.sizingMode === "evaluate") {
+    const existing = "Installed System";
+    add(existing, "Resin per tank", form.existingResinVolume, units.resinVolume);
+    add(existing, "Tank diameter", form.existingTankDiameter, units.length);
+    add(existing, "Salt per regeneration, per tank", form.existingSaltPerRegen, units.saltMass);
+    add(existing, "Current regeneration interval", form.existingDaysBetweenRegen, "days");
+  }
+
+  const water = "Section 1 - Water Quality";
+  add(water, "Detailed water analysis", form.useWaterAnalysis ? "Yes" : "No");
+  if (form.useWaterAnalysis) {
+    const ions: [string, string][] = [
+      ["Calcium (Ca)", form.calciumMgL],
+      ["Magnesium (Mg)", form.magnesiumMgL],
+      ["Sodium (Na)", form.sodiumMgL],
+      ["Potassium (K)", form.potassiumMgL],
+      ["Iron (Fe)", form.ironPpm],
+      ["Manganese (Mn)", form.manganesePpm],
+      ["Bicarbonate (HCO₃)", form.bicarbonateMgL],
+      ["Chloride (Cl)", form.chlorideMgL],
+      ["Sulfate (SO₄)", form.sulfateMgL],
+      ["Nitrate (NO₃)", form.nitrateMgL],
+      ["TDS", form.tdsMgL],
+    ];
+    for (const [label, value] of ions) {
+      add(water, label, value, "mg/L");
+    }
+    add(water, "pH", form.ph);
+  } else {
+    add(water, "Raw hardness value", form.hardnessValue, form.hardnessUnits);
+  }
+  add(water, "Use compensated hardness", form.useCompensation ? "Yes" : "No");
+  if (form.useCompensation && !form.useWaterAnalysis) {
+    add(water, "Iron (Fe)", form.ironPpm, "ppm");
+    add(water, "Manganese (Mn)", form.manganesePpm, "ppm");
+  }
+
+  const demand = "Section 2 - Demand / Operating Targets";
+  add(demand, form.sizingMode === "evaluate" ? "Actual water use" : "Total water use", form.gallonsPerDay, units.dailyVolume);
+  add(demand, "Target days between regenerations", form.daysBetweenRegen, "days");
+  add(demand, "Reserve capacity", form.reservePercent, "%");
+  add(demand, "Regeneration control", REGENERATION_CONTROL_LABELS[form.regenerationControl]);
+  if (form.regenerationControl === "metered") {
+    const meteredTank = STANDARD_TANKS.find((tank) => tank.model === form.meteredTankModel);
+    add(
+      demand,
+      "Metered tank",
+      meteredTank ? formatTankSize(meteredTank.diameterIn, meteredTank.sideShellIn, form.unitSystem) : "Vessel selected in Step 13",
+    );
+    add(demand, "Peak day water use", form.peakDayGallons, units.dailyVolume);
+  }
+
+  const capacity = "Section 3 - Regeneration / Capacity Assumptions";
+  add(capacity, "Resin type", form.resinType === "custom" ? CUSTOM_RESIN_LABEL : RESIN_PROFILES[form.resinType].label);
+  if (form.resinType === "custom") {
+    add(capacity, "Custom resin name", form.customResinName);
+    for (const dose of SALT_DOSES) {
+      const doseLabel = `${formatNumber(toDisplayUnits(dose, "saltDose", form.unitSystem), 0)} ${units.saltDose}`;
+      add(capacity, `Capacity at ${doseLabel}`, form[CUSTOM_RESIN_CAPACITY_FIELDS[dose]], units.capacity);
+    }
+    add(capacity, "Maximum temperature", form.customResinMaxTemperature, units.temperature);
+    add(capacity, "Recommended service rate, minimum", form.customResinServiceRateMin, units.loadingRate);
+    add(capacity, "Recommended service rate, maximum", form.customResinServiceRateMax, units.loadingRate);
+    add(capacity, "Backwash rate for 50% expansion at 68 °F", form.customResinBackwashRate, units.loadingRate);
+  }
+  add(capacity, "Salt dose", form.saltDose, units.saltDose);
+  add(capacity, "Override working capacity", form.overrideCapacity ? "Yes" : "No");
+  if (form.overrideCapacity) {
+    add(capacity, "Working capacity", form.overrideCapacityValue, units.capacity);
+  }
+  add(capacity, "Salt dissolution factor", form.saltDissolutionFactor, units.dissolution);
+  add(capacity, "Regeneration mode", REGENERATION_MODE_LABELS[form.regenerationMode]);
+  if (!form.useWaterAnalysis) {
+    add(capacity, "Feed TDS", form.tdsMgL, "mg/L");
+  }
+  add(capacity, "Effluent hardness target", form.effluentTargetMgL, "mg/L as CaCO₃");
+
+  const flow = "Section 4 - Flow / Vessel Sizing Assumptions";
+  add(flow, "System configuration", SYSTEM_CONFIG_LABELS[form.systemConfig]);
+  if (form.systemConfig === "parallel") {
+    add(flow, "Units in service (N)", form.unitsInService, "units");
+  }
+  add(flow, "Peak flow rate", form.peakFlowGpm, units.flow);
+  add(flow, "Service loading rate", form.serviceLoadingRate, units.loadingRate);
+  add(flow, "Water temperature", form.waterTemperature, units.temperature);
+  add(flow, "Override backwash rate", form.overrideBackwashRate ? "Yes" : "No");
+  if (form.overrideBackwashRate) {
+    add(flow, "Backwash rate", form.backwashRate, units.loadingRate);
+  } else {
+    add(flow, "Target bed expansion", form.backwashExpansionPercent, "%");
+  }
+
+  const regeneration = "Section 5 - Regeneration Cycle";
+  add(regeneration, "Backwash time", form.backwashMinutes, "minutes");
+  add(regeneration, "Brine concentration", form.brineConcentrationPercent, "% sodium chloride by weight");
+  add(regeneration, "Brine draw rate", form.brineDrawRate, units.brineDrawRate);
+  add(regeneration, "Slow rinse volume", form.slowRinseBedVolumes, "bed volumes");
+  add(regeneration, "Fast rinse rate", form.fastRinseRate, units.loadingRate);
+  add(regeneration, "Fast rinse time", form.fastRinseMinutes, "minutes");
+  add(regeneration, "Salt type", SALT_TYPE_LABELS[form.saltType]);
+  add(regeneration, "Salt refill interval", form.refillIntervalDays, "days");
+
+  const costs = "Section 6 - Operating Costs";
+  add(costs, "Salt price", form.saltPrice, form.saltPriceUnit === "per ton" ? `$ ${units.priceSaltMass}` : `$ ${form.saltPriceUnit}`);
+  add(costs, "Water and sewer cost", form.waterSewerCostPerKgal, units.priceWaterVolume);
+  add(costs, "Control valve power", form.valvePowerWatts, "watts per valve");
+  add(costs, "Electricity", form.electricityCostPerKwh, "$ per kWh");
+  add(costs, "Resin price", form.resinPricePerFt3, units.priceResinVolume);
+  add(costs, "Resin replacement interval", form.resinReplacementYears, "years");
+
+  return rows;
+}
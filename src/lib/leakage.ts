@@ -0,0 +1,81 @@
+import { formatNumber, formatQuantity } from "@/lib/format";
+import type { SaltDose } from "@/lib/resins";
+import type { SizingResult } from "@/lib/sizing";
+import type { UnitSystem } from "@/lib/units";
+
+/**
+ * Co-current regeneration passes brine down the same way as service flow, leaving the least
+ * regenerated resin at the outlet. Counter-current passes it upward, so the outlet resin is
+ * the best regenerated and leakage drops by roughly an order of magnitude.
+ */
+export type RegenerationMode = "co-current" | "counter-current";
+
+export const REGENERATION_MODE_LABELS: Record<RegenerationMode, string> = {
+  "co-current": "Co-current (downflow brine)",
+  "counter-current": "Counter-current (upflow brine)",
+};
+
+/**
+ * Average hardness leakage as a percentage of feed TDS, read from typical strong acid cation
+ * leakage curves for sodium chloride regeneration.
+ */
+const LEAKAGE_PERCENT_OF_TDS: Record<RegenerationMode, Record<SaltDose, number>> = {
+  "co-current": { 4: 1.6, 6: 1.0, 8: 0.6, 10: 0.4, 12: 0.3, 15: 0.2 },
+  "counter-current": { 4: 0.16, 6: 0.1, 8: 0.06, 10: 0.04, 12: 0.03, 15: 0.02 },
+};
+
+const LEAKAGE_DOSES = Object.keys(LEAKAGE_PERCENT_OF_TDS["co-current"]).map(Number) as SaltDose[];
+
+/** Leakage as a percentage of TDS at the lowest and at the highest table dose. */
+export function leakagePercentRange(mode: RegenerationMode): { lowestDose: number; highestDose: number } {
+  const table = LEAKAGE_PERCENT_OF_TDS[mode];
+  return { lowestDose: table[LEAKAGE_DOSES[0]], highestDose: table[LEAKAGE_DOSES[LEAKAGE_DOSES.length - 1]] };
+}
+
+/**
+ * Expected effluent hardness in mg/L as CaCO₃, interpolated linearly between the table doses.
+ * Returns `null` for doses outside the table.
+ */
+export function predictLeakageMgL(tdsMgL: number, saltDose: number, mode: RegenerationMode): number | null {
+  const table = LEAKAGE_PERCENT_OF_TDS[mode];
+  for (let index = 0; index < LEAKAGE_DOSES.length - 1; index += 1) {
+    const low = LEAKAGE_DOSES[index];
+    const high = LEAKAGE_DOSES[index + 1];
+    if (saltDose >= low && saltDose <= high) {
+      const fraction = (saltDose - low) / (high - low);
+      const percent = table[low] + fraction * (table[high] - table[low]);
+      return (tdsMgL * percent) / 100;
+    }
+  }
+  return null;
+}
+
+/** Lowest table dose that meets the target in `mode`, or `null` when even the highest dose cannot. */
+export function lowestDoseMeetingTarget(tdsMgL: number, targetMgL: number, mode: RegenerationMode): SaltDose | null {
+  return LEAKAGE_DOSES.find((dose) => (predictLeakageMgL(tdsMgL, dose, mode) ?? Infinity) <= targetMgL) ?? null;
+}
+
+/**
+ * Explains a missed effluent target and what would fix it: the lowest dose that meets it, or
+ * counter-current regeneration. Returns `null` when the target is met or not set.
+ */
+export function describeLeakageShortfall(result: SizingResult, unitSystem: UnitSystem): string | null {
+  if (result.step20MeetsTarget !== false || result.step20LeakageMgL === null) {
+    return null;
+  }
+
+  const remedies: string[] = [];
+  if (result.step20SuggestedDose !== null) {
+    remedies.push(`raise the salt dose to ${formatQuantity(result.step20SuggestedDose, "saltDose", unitSystem, 0)}`);
+  }
+  if (result.step20CounterCurrentMeetsTarget && result.step20CounterCurrentLeakageMgL !== null) {
+    remedies.push(
+      `switch to counter-current regeneration (about ${formatNumber(result.step20CounterCurrentLeakageMgL, 2)} mg/L at the current dose)`,
+    );
+  }
+
+  const prediction = `Predicted hardness leakage of ${formatNumber(result.step20LeakageMgL, 2)} mg/L as CaCO₃ exceeds the effluent target.`;
+  return remedies.length > 0
+    ? `${prediction} To meet it, ${remedies.join(" or ")}.`
+    : `${prediction} No table salt dose meets it; consider a two-stage (lead/polish) softener.`;
+}
@@ -0,0 +1,123 @@
+import { isPositive, type SizingInputs, type SizingResult } from "@/lib/sizing";
+import { STANDARD_TANKS, type StandardTank } from "@/lib/tanks";
+
+/**
+ * A time clock regenerates every set number of days whatever the use; a meter starts a
+ * regeneration once the tank has treated its set-point volume, so quiet days cost no salt.
+ */
+export type RegenerationControl = "time-clock" | "metered";
+
+export const REGENERATION_CONTROL_LABELS: Record<RegenerationControl, string> = {
+  "time-clock": "Time clock (every set number of days)",
+  metered: "Metered (demand-initiated)",
+};
+
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_YEAR = 365;
+const LBS_PER_TON = 2000;
+
+export type MeteredRegeneration = {
+  /** Vessel the meter is set for; the Step 13 vessel unless another one is chosen. */
+  tank: StandardTank | null;
+  resinFt3: number | null;
+  /** Gallons one tank treats before the meter starts a regeneration, after reserve. */
+  setPointGallons: number | null;
+  regenerationsPerWeekAverage: number | null;
+  regenerationsPerWeekPeak: number | null;
+  annualRegenerations: number | null;
+  saltLbsPerRegen: number | null;
+  meteredAnnualSaltTons: number | null;
+  /** Longest whole-day clock setting with which the same tanks still cover the peak day. */
+  timedDaysBetweenRegen: number | null;
+  timedAnnualSaltTons: number | null;
+  /** Salt saved by metering compared with the time clock, as a share of the time-clock salt. */
+  saltSavingsPercent: number | null;
+  message: string | null;
+  timedMessage: string | null;
+};
+
+/**
+ * Meter set point and regeneration frequency for the chosen tank. Every regeneration
+ * restores one set point of treated water, so the system-wide regeneration count is the
+ * daily use divided by the set point whether tanks run alone or in parallel. The time-clock
+ * comparison uses the same tanks with the clock set short enough to survive the peak day.
+ * Only the steps up to the vessel choice are read, so Step 21 can size salt storage from it.
+ */
+export function analyzeMeteredRegeneration(
+  inputs: SizingInputs,
+  result: Pick<
+    SizingResult,
+    "step2DesignHardnessGpg" | "step6CapacityPerFt3" | "step7ResinFt3" | "step13Tank" | "unitsInService"
+  >,
+): MeteredRegeneration {
+  const chosenTank = inputs.meteredTankModel
+    ? (STANDARD_TANKS.find((tank) => tank.model === inputs.meteredTankModel) ?? null)
+    : null;
+  const tank = chosenTank ?? result.step13Tank;
+  const resinFt3 = chosenTank ? chosenTank.maxResinFt3 : result.step7ResinFt3;
+
+  const analysis: MeteredRegeneration = {
+    tank,
+    resinFt3,
+    setPointGallons: null,
+    regenerationsPerWeekAverage: null,
+    regenerationsPerWeekPeak: null,
+    annualRegenerations: null,
+    saltLbsPerRegen: null,
+    meteredAnnualSaltTons: null,
+    timedDaysBetweenRegen: null,
+    timedAnnualSaltTons: null,
+    saltSavingsPercent: null,
+    message: null,
+    timedMessage: null,
+  };
+
+  const reservePercent = inputs.reservePercent;
+  if (
+    resinFt3 === null ||
+    result.step6CapacityPerFt3 === null ||
+    result.step2DesignHardnessGpg === null ||
+    !isPositive(inputs.saltDose)
+  ) {
+    analysis.message = "Complete Steps 2, 6 and 7 (or choose a tank) to calculate the meter set point.";
+    return analysis;
+  }
+  if (reservePercent === null || reservePercent < 0 || reservePercent >= 100) {
+    analysis.message = "Reserve Capacity must be at least 0% and below 100% to calculate the meter set point.";
+    return analysis;
+  }
+
+  const setPointGallons =
+    (resinFt3 * result.step6CapacityPerFt3 * (1 - reservePercent / 100)) / result.step2DesignHardnessGpg;
+  const saltLbsPerRegen = resinFt3 * inputs.saltDose;
+  analysis.setPointGallons = setPointGallons;
+  analysis.saltLbsPerRegen = saltLbsPerRegen;
+
+  if (!isPositive(inputs.gallonsPerDay)) {
+    analysis.message = "Enter Total Water Use to estimate regeneration frequency.";
+    return analysis;
+  }
+
+  const averageGallonsPerDay = inputs.gallonsPerDay;
+  const peakGallonsPerDay = isPositive(inputs.peakDayGallons) ? inputs.peakDayGallons : averageGallonsPerDay;
+  analysis.regenerationsPerWeekAverage = (DAYS_PER_WEEK * averageGallonsPerDay) / setPointGallons;
+  analysis.regenerationsPerWeekPeak = (DAYS_PER_WEEK * peakGallonsPerDay) / setPointGallons;
+  analysis.annualRegenerations = (DAYS_PER_YEAR * averageGallonsPerDay) / setPointGallons;
+  analysis.meteredAnnualSaltTons = (analysis.annualRegenerations * saltLbsPerRegen) / LBS_PER_TON;
+
+  const unitsInService = result.unitsInService;
+  if (unitsInService === null) {
+    analysis.timedMessage = "Fix the system configuration to compare with time-clock operation.";
+    return analysis;
+  }
+  const timedDays = Math.floor((setPointGallons * unitsInService) / peakGallonsPerDay);
+  if (timedDays < 1) {
+    analysis.timedMessage =
+      "These tanks cannot carry a peak day between daily time-clock regenerations, so only metered operation is practical.";
+    return analysis;
+  }
+  analysis.timedDaysBetweenRegen = timedDays;
+  analysis.timedAnnualSaltTons = ((DAYS_PER_YEAR / timedDays) * unitsInService * saltLbsPerRegen) / LBS_PER_TON;
+  analysis.saltSavingsPercent = (1 - analysis.meteredAnnualSaltTons / analysis.timedAnnualSaltTons) * 100;
+  return analysis;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VALUES, toSizingInputs } from "@/lib/form";
+import { percentile, runMonteCarlo } from "@/lib/monteCarlo";
+
+/** Deterministic stand-in for `Math.random`. */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return state / 2 ** 32;
+  };
+}
+
+const inputs = toSizingInputs({
+  ...DEFAULT_VALUES,
+  hardnessValue: "250",
+  gallonsPerDay: "20000",
+  daysBetweenRegen: "2",
+  peakFlowGpm: "40",
+});
+
+describe("runMonteCarlo", () => {
+  it("returns ascending resin volumes and catalog tank diameters", () => {
+    const result = runMonteCarlo(
+      {
+        inputs,
+        ranges: { hardness: { distribution: "triangular", min: 150, likely: 250, max: 400, mean: 0, stdDev: 0 } },
+        iterations: 500,
+      },
+      seededRandom(1),
+    );
+    expect(result.completedRuns).toBe(500);
+    expect(result.resinFt3).toEqual([...result.resinFt3].sort((a, b) => a - b));
+    expect(percentile(result.resinFt3, 90)).toBeGreaterThan(percentile(result.resinFt3, 50) ?? Infinity);
+  });
+
+  it("lets the vessel diameter vary with hardness even though peak flow is fixed", () => {
+    const result = runMonteCarlo(
+      {
+        inputs,
+        ranges: { hardness: { distribution: "triangular", min: 150, likely: 250, max: 400, mean: 0, stdDev: 0 } },
+        iterations: 500,
+      },
+      seededRandom(2),
+    );
+    expect(percentile(result.tankDiameterIn, 95)).toBeGreaterThan(percentile(result.tankDiameterIn, 5) ?? Infinity);
+  });
+
+  it("runs at least once", () => {
+    expect(runMonteCarlo({ inputs, ranges: {}, iterations: 0 }).iterations).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { isPositive, type SizingInputs, sizeSoftener } from "@/lib/sizing";
+import { analyzeWater } from "@/lib/waterAnalysis";
+
+export type Distribution = "triangular" | "normal";
+
+export const DISTRIBUTION_LABELS: Record<Distribution, string> = {
+  triangular: "Min / likely / max",
+  normal: "Mean / std-dev",
+};
+
+export type UncertainInput = "hardness" | "iron" | "manganese" | "gallonsPerDay";
+
+/**
+ * Range for one uncertain input in engine units. Triangular uses `min`, `likely` and `max`;
+ * normal uses `mean` and `stdDev`. Hardness is in the form's hardness unit, or mg/L as CaCO₃
+ * with a water analysis.
+ */
+export type UncertainRange = {
+  distribution: Distribution;
+  min: number;
+  likely: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+};
+
+export type MonteCarloRequest = {
+  inputs: SizingInputs;
+  /** Inputs without a range stay at the design value. */
+  ranges: Partial<Record<UncertainInput, UncertainRange>>;
+  iterations: number;
+};
+
+export type MonteCarloResult = {
+  iterations: number;
+  /** Runs that produced both a resin volume and a bed area, so Step 13 could pick a vessel. */
+  completedRuns: number;
+  /** Resin volume per tank of every completed run, ascending. */
+  resinFt3: number[];
+  /**
+   * Diameter of the Step 13 catalog vessel of every completed run, ascending. `Infinity` marks
+   * a run that no catalog vessel holds.
+   */
+  tankDiameterIn: number[];
+};
+
+export const MAX_ITERATIONS = 20000;
+
+/** Draws from a triangular distribution by inverting its cumulative distribution. */
+function sampleTriangular(min: number, likely: number, max: number, random: () => number): number {
+  if (max <= min) {
+    return min;
+  }
+  const u = random();
+  const split = (likely - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+/** Draws from a normal distribution with the Box–Muller transform. */
+function sampleNormal(mean: number, stdDev: number, random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** One draw from `range`, floored at 0 because none of the uncertain inputs can be negative. */
+export function sampleRange(range: UncertainRange, random: () => number = Math.random): number {
+  const value =
+    range.distribution === "triangular"
+      ? sampleTriangular(range.min, range.likely, range.max, random)
+      : sampleNormal(range.mean, range.stdDev, random);
+  return Math.max(0, value);
+}
+
+/** A range is usable when triangular values are ordered or the normal spread is not negative. */
+export function isValidRange(range: UncertainRange): boolean {
+  return range.distribution === "triangular"
+    ? range.min >= 0 && range.min <= range.likely && range.likely <= range.max
+    : range.mean >= 0 && range.stdDev >= 0;
+}
+
+/**
+ * The design inputs with sampled values. With a water analysis, hardness scales the calcium
+ * and magnesium so the analysis hardness matches the draw.
+ */
+function applySample(inputs: SizingInputs, input: UncertainInput, value: number): SizingInputs {
+  switch (input) {
+    case "hardness": {
+      if (!inputs.waterAnalysis) {
+        return { ...inputs, hardnessValue: value };
+      }
+      const analysisHardness = analyzeWater(inputs.waterAnalysis).hardnessMgL;
+      const factor = isPositive(analysisHardness) ? value / analysisHardness : 0;
+      const { calciumMgL, magnesiumMgL } = inputs.waterAnalysis;
+      return {
+        ...inputs,
+        waterAnalysis: {
+          ...inputs.waterAnalysis,
+          calciumMgL: calciumMgL === null ? null : calciumMgL * factor,
+          magnesiumMgL: magnesiumMgL === null ? null : magnesiumMgL * factor,
+        },
+      };
+    }
+    case "iron":
+      return { ...inputs, ironPpm: value };
+    case "manganese":
+      return { ...inputs, manganesePpm: value };
+    case "gallonsPerDay":
+      return { ...inputs, gallonsPerDay: value };
+  }
+}
+
+/**
+ * Sizes the softener `iterations` times with the uncertain inputs drawn from their ranges and
+ * collects the Step 7 resin volume and Step 13 vessel diameter of every run that completes.
+ */
+export function runMonteCarlo(request: MonteCarloRequest, random: () => number = Math.random): MonteCarloResult {
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(1, Math.round(request.iterations)));
+  const ranges = Object.entries(request.ranges) as [UncertainInput, UncertainRange][];
+  const resinFt3: number[] = [];
+  const tankDiameterIn: number[] = [];
+
+  for (let run = 0; run < iterations; run += 1) {
+    let inputs = request.inputs;
+    for (const [input, range] of ranges) {
+      inputs = applySample(inputs, input, sampleRange(range, random));
+    }
+    const result = sizeSoftener(inputs);
+    if (result.step7ResinFt3 !== null && result.step10BedAreaFt2 !== null) {
+      resinFt3.push(result.step7ResinFt3);
+      tankDiameterIn.push(result.step13Tank?.diameterIn ?? Infinity);
+    }
+  }
+
+  const ascending = (a: number, b: number) => a - b;
+  return {
+    iterations,
+    completedRuns: resinFt3.length,
+    resinFt3: resinFt3.sort(ascending),
+    tankDiameterIn: tankDiameterIn.sort(ascending),
+  };
+}
+
+/** Nearest-rank percentile of ascending `values`, or `null` when there are none. */
+export function percentile(values: number[], percent: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((percent / 100) * values.length);
+  return values[Math.min(values.length, Math.max(1, rank)) - 1];
+}
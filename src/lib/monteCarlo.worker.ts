@@ -0,0 +1,6 @@
+import { type MonteCarloRequest, runMonteCarlo } from "@/lib/monteCarlo";
+
+/** Runs the simulation off the main thread so the form stays responsive during a few thousand sizings. */
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  self.postMessage(runMonteCarlo(event.data));
+};
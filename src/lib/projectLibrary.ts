@@ -0,0 +1,106 @@
+import { type FormValues, sanitizeFormValues, upgradeLegacyFormValues } from "@/lib/form";
+
+export type DesignDetails = {
+  name: string;
+  customer: string;
+  site: string;
+  date: string;
+  notes: string;
+};
+
+export type SavedDesign = DesignDetails & {
+  id: string;
+  savedAt: string;
+  form: FormValues;
+};
+
+export function createDesignDetails(): DesignDetails {
+  return {
+    name: "",
+    customer: "",
+    site: "",
+    date: new Date().toISOString().slice(0, 10),
+    notes: "",
+  };
+}
+
+const STORAGE_KEY = "softener-sizer:saved-designs";
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/** Reads design details from untrusted data; missing or non-string fields become empty. */
+export function sanitizeDesignDetails(value: unknown): DesignDetails {
+  const record = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  return {
+    name: readString(record.name),
+    customer: readString(record.customer),
+    site: readString(record.site),
+    date: readString(record.date),
+    notes: readString(record.notes),
+  };
+}
+
+function sanitizeSavedDesign(value: unknown): SavedDesign | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== "string" || typeof record.form !== "object" || record.form === null) {
+    return null;
+  }
+
+  const details = sanitizeDesignDetails(record);
+  return {
+    ...details,
+    id: record.id,
+    name: details.name || "Untitled design",
+    savedAt: readString(record.savedAt),
+    form: sanitizeFormValues(upgradeLegacyFormValues(record.form as Record<string, unknown>)),
+  };
+}
+
+/** Reads the library from localStorage, dropping entries that no longer parse. */
+export function loadSavedDesigns(): SavedDesign[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.map(sanitizeSavedDesign).filter((design): design is SavedDesign => design !== null);
+  } catch {
+    return [];
+  }
+}
+
+/** Writes the library back. Returns `false` when storage is unavailable or full. */
+export function storeSavedDesigns(designs: SavedDesign[]): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(designs));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createSavedDesign(details: DesignDetails, form: FormValues): SavedDesign {
+  return {
+    ...details,
+    name: details.name.trim() || "Untitled design",
+    id: crypto.randomUUID(),
+    savedAt: new Date().toISOString(),
+    form,
+  };
+}
+
+export function duplicateSavedDesign(design: SavedDesign): SavedDesign {
+  return {
+    ...design,
+    id: crypto.randomUUID(),
+    name: `${design.name} (copy)`,
+    savedAt: new Date().toISOString(),
+  };
+}
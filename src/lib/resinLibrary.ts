@@ -0,0 +1,79 @@
+import { type ResinProfile, SALT_DOSES } from "@/lib/resins";
+
+/** A team's own resin profile, stored in US units like the built-in ones. */
+export type CustomResin = ResinProfile & {
+  id: string;
+};
+
+const STORAGE_KEY = "softener-sizer:custom-resins";
+
+function readPositive(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function sanitizeCustomResin(value: unknown): CustomResin | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const curve =
+    typeof record.capacityBySaltDose === "object" && record.capacityBySaltDose !== null
+      ? (record.capacityBySaltDose as Record<string, unknown>)
+      : {};
+  const capacities = SALT_DOSES.map((dose) => readPositive(curve[dose]));
+  const maxTemperatureF = readPositive(record.maxTemperatureF);
+  const serviceRateMin = readPositive(record.serviceRateMin);
+  const serviceRateMax = readPositive(record.serviceRateMax);
+  const backwashRate50At68F = readPositive(record.backwashRate50At68F);
+  if (
+    typeof record.id !== "string" ||
+    typeof record.label !== "string" ||
+    capacities.some((capacity) => capacity === null) ||
+    maxTemperatureF === null ||
+    serviceRateMin === null ||
+    serviceRateMax === null ||
+    backwashRate50At68F === null
+  ) {
+    return null;
+  }
+
+  const [c4, c6, c8, c10, c12, c15] = capacities as number[];
+  return {
+    id: record.id,
+    label: record.label,
+    capacityBySaltDose: { 4: c4, 6: c6, 8: c8, 10: c10, 12: c12, 15: c15 },
+    maxTemperatureF,
+    serviceRateMin,
+    serviceRateMax,
+    backwashRate50At68F,
+  };
+}
+
+/** Reads the custom resins from localStorage, dropping entries that no longer parse. */
+export function loadCustomResins(): CustomResin[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.map(sanitizeCustomResin).filter((resin): resin is CustomResin => resin !== null);
+  } catch {
+    return [];
+  }
+}
+
+/** Writes the custom resins back. Returns `false` when storage is unavailable or full. */
+export function storeCustomResins(resins: CustomResin[]): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(resins));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createCustomResin(profile: ResinProfile): CustomResin {
+  return { ...profile, id: crypto.randomUUID() };
+}
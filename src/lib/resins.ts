@@ -0,0 +1,108 @@
+/** Salt doses in pounds of NaCl per cubic foot at which every capacity curve is tabulated. */
+export type SaltDose = 4 | 6 | 8 | 10 | 12 | 15;
+
+export const SALT_DOSES: SaltDose[] = [4, 6, 8, 10, 12, 15];
+
+/** Strong acid cation resins offered for softening. */
+export type BuiltInResinType = "standard-gel" | "high-crosslink-gel" | "fine-mesh" | "macroporous";
+
+/** `custom` uses the profile entered on the form. */
+export type ResinType = BuiltInResinType | "custom";
+
+export type ResinProfile = {
+  label: string;
+  /** Working capacity in grains per cubic foot (as CaCO₃) at each table salt dose. */
+  capacityBySaltDose: Record<SaltDose, number>;
+  /** Highest continuous operating temperature in °F. */
+  maxTemperatureF: number;
+  /** Recommended service loading range at peak flow, gpm/ft². */
+  serviceRateMin: number;
+  serviceRateMax: number;
+  /** Backwash rate in gpm/ft² that expands the bed by 50% in 68 °F water. */
+  backwashRate50At68F: number;
+};
+
+/**
+ * Typical manufacturer data for sodium-cycle softening. Higher crosslinking holds more exchange
+ * sites per bead and tolerates heat and oxidants better; fine mesh beads have shorter diffusion
+ * paths, so they regenerate more completely and run at higher rates. Macroporous beads trade
+ * some capacity for resistance to osmotic shock. Heavier and larger beads need more upflow to
+ * lift; fine mesh beads expand at about half the rate of standard beads.
+ */
+export const RESIN_PROFILES: Record<BuiltInResinType, ResinProfile> = {
+  "standard-gel": {
+    label: "Standard 8% crosslinked gel",
+    capacityBySaltDose: { 4: 16500, 6: 20000, 8: 22500, 10: 25000, 12: 27500, 15: 30000 },
+    maxTemperatureF: 250,
+    serviceRateMin: 6,
+    serviceRateMax: 10,
+    backwashRate50At68F: 6,
+  },
+  "high-crosslink-gel": {
+    label: "10% crosslinked gel",
+    capacityBySaltDose: { 4: 18000, 6: 22000, 8: 25000, 10: 27500, 12: 29500, 15: 32000 },
+    maxTemperatureF: 270,
+    serviceRateMin: 6,
+    serviceRateMax: 12,
+    backwashRate50At68F: 7,
+  },
+  "fine-mesh": {
+    label: "Fine mesh gel",
+    capacityBySaltDose: { 4: 17500, 6: 21000, 8: 23500, 10: 26000, 12: 28000, 15: 30500 },
+    maxTemperatureF: 250,
+    serviceRateMin: 6,
+    serviceRateMax: 14,
+    backwashRate50At68F: 3.5,
+  },
+  macroporous: {
+    label: "Macroporous",
+    capacityBySaltDose: { 4: 15000, 6: 18000, 8: 20500, 10: 23000, 12: 25000, 15: 27500 },
+    maxTemperatureF: 300,
+    serviceRateMin: 6,
+    serviceRateMax: 12,
+    backwashRate50At68F: 5,
+  },
+};
+
+export const BUILT_IN_RESIN_TYPES = Object.keys(RESIN_PROFILES) as BuiltInResinType[];
+
+export const RESIN_TYPES: ResinType[] = [...BUILT_IN_RESIN_TYPES, "custom"];
+
+export const CUSTOM_RESIN_LABEL = "Custom resin profile";
+
+/**
+ * Working capacity for any dose inside the table range, interpolated linearly between the
+ * curve points. Returns `null` outside the range.
+ */
+export function capacityForSaltDose(resin: ResinProfile, dose: number): number | null {
+  for (let index = 0; index < SALT_DOSES.length - 1; index += 1) {
+    const low = SALT_DOSES[index];
+    const high = SALT_DOSES[index + 1];
+    if (dose >= low && dose <= high) {
+      const fraction = (dose - low) / (high - low);
+      const curve = resin.capacityBySaltDose;
+      return curve[low] + fraction * (curve[high] - curve[low]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Lowest dose in the table range whose working capacity reaches `capacity`, the inverse of
+ * `capacityForSaltDose`. Returns the lowest table dose when even that is enough, and `null`
+ * when the highest dose falls short.
+ */
+export function saltDoseForCapacity(resin: ResinProfile, capacity: number): number | null {
+  const curve = resin.capacityBySaltDose;
+  if (capacity <= curve[SALT_DOSES[0]]) {
+    return SALT_DOSES[0];
+  }
+  for (let index = 0; index < SALT_DOSES.length - 1; index += 1) {
+    const low = SALT_DOSES[index];
+    const high = SALT_DOSES[index + 1];
+    if (capacity <= curve[high]) {
+      return low + ((capacity - curve[low]) / (curve[high] - curve[low])) * (high - low);
+    }
+  }
+  return null;
+}
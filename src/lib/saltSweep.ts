@@ -0,0 +1,82 @@
+import { type EconomicsInputs, projectOperatingCosts } from "@/lib/economics";
+import { SALT_DOSES } from "@/lib/resins";
+import { type SizingInputs, sizeSoftener } from "@/lib/sizing";
+import type { StandardTank } from "@/lib/tanks";
+
+export type SaltSweepRow = {
+  saltDose: number;
+  interpolated: boolean;
+  capacityPerFt3: number | null;
+  resinFt3: number | null;
+  saltLbsPerRegen: number | null;
+  grainsPerLbSalt: number | null;
+  annualSaltTons: number | null;
+  tank: StandardTank | null;
+  diameterIn: number | null;
+};
+
+export type SaltSweep = {
+  rows: SaltSweepRow[];
+  mostEfficientDose: number | null;
+  smallestVesselDose: number | null;
+};
+
+/** Whole-pound doses across the table range, used when interpolated points are requested. */
+export function interpolatedSaltDoses(): number[] {
+  const doses: number[] = [];
+  for (let dose = SALT_DOSES[0]; dose <= SALT_DOSES[SALT_DOSES.length - 1]; dose += 1) {
+    doses.push(dose);
+  }
+  return doses;
+}
+
+/**
+ * Runs the full sizing once per salt dose with every other input unchanged. The capacity
+ * override is ignored so each row reflects the resin's capacity curve at that dose.
+ */
+export function sweepSaltDoses(inputs: SizingInputs, economics: EconomicsInputs, includeInterpolated: boolean): SaltSweep {
+  const doses = includeInterpolated ? interpolatedSaltDoses() : [...SALT_DOSES];
+
+  const rows = doses.map((saltDose): SaltSweepRow => {
+    const doseInputs: SizingInputs = { ...inputs, saltDose, overrideCapacity: false };
+    const result = sizeSoftener(doseInputs);
+    const costs = projectOperatingCosts(doseInputs, result, economics);
+
+    return {
+      saltDose,
+      interpolated: !(SALT_DOSES as number[]).includes(saltDose),
+      capacityPerFt3: result.step6CapacityPerFt3,
+      resinFt3: result.step7ResinFt3,
+      saltLbsPerRegen: result.step8SaltLbsPerRegen,
+      grainsPerLbSalt: result.step6CapacityPerFt3 === null ? null : result.step6CapacityPerFt3 / saltDose,
+      annualSaltTons: costs.annualSaltTons,
+      tank: result.step13Tank,
+      diameterIn: result.step11DiameterIn,
+    };
+  });
+
+  let mostEfficient: SaltSweepRow | null = null;
+  let smallestVessel: SaltSweepRow | null = null;
+  for (const row of rows) {
+    if (row.resinFt3 === null || row.grainsPerLbSalt === null) {
+      continue;
+    }
+    if (!mostEfficient || row.grainsPerLbSalt > (mostEfficient.grainsPerLbSalt ?? 0)) {
+      mostEfficient = row;
+    }
+    if (
+      row.tank &&
+      (!smallestVessel?.tank ||
+        row.tank.maxResinFt3 < smallestVessel.tank.maxResinFt3 ||
+        (row.tank === smallestVessel.tank && row.resinFt3 < (smallestVessel.resinFt3 ?? Infinity)))
+    ) {
+      smallestVessel = row;
+    }
+  }
+
+  return {
+    rows,
+    mostEfficientDose: mostEfficient?.saltDose ?? null,
+    smallestVesselDose: smallestVessel?.saltDose ?? null,
+  };
+}
@@ -0,0 +1,62 @@
+import { type FormValues, sanitizeFormValues } from "@/lib/form";
+
+/** One design variant in the comparison workspace, cloned from the calculator form. */
+export type Scenario = {
+  id: string;
+  name: string;
+  form: FormValues;
+};
+
+export type ScenarioWorkspace = {
+  scenarios: Scenario[];
+  /** Scenario marked as the selected design, if any. */
+  selectedId: string | null;
+};
+
+const STORAGE_KEY = "softener-sizer:scenarios";
+
+function sanitizeScenario(value: unknown): Scenario | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== "string" || typeof record.form !== "object" || record.form === null) {
+    return null;
+  }
+  return {
+    id: record.id,
+    name: typeof record.name === "string" && record.name.trim() ? record.name : "Untitled scenario",
+    form: sanitizeFormValues(record.form as Record<string, unknown>),
+  };
+}
+
+/** Reads the workspace from localStorage, dropping scenarios that no longer parse. */
+export function loadScenarioWorkspace(): ScenarioWorkspace {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    const record = typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : {};
+    const scenarios = Array.isArray(record.scenarios)
+      ? record.scenarios.map(sanitizeScenario).filter((scenario): scenario is Scenario => scenario !== null)
+      : [];
+    const selectedId = scenarios.some((scenario) => scenario.id === record.selectedId) ? (record.selectedId as string) : null;
+    return { scenarios, selectedId };
+  } catch {
+    return { scenarios: [], selectedId: null };
+  }
+}
+
+/** Writes the workspace back. Returns `false` when storage is unavailable or full. */
+export function storeScenarioWorkspace(workspace: ScenarioWorkspace): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createScenario(name: string, form: FormValues): Scenario {
+  return { id: crypto.randomUUID(), name: name.trim() || "Untitled scenario", form };
+}
@@ -0,0 +1,96 @@
+import { type SizingInputs, type SizingResult, sizeSoftener } from "@/lib/sizing";
+import type { Quantity } from "@/lib/units";
+
+export type SensitivityInput =
+  | "hardness"
+  | "gallonsPerDay"
+  | "reservePercent"
+  | "capacityPerFt3"
+  | "peakFlowGpm"
+  | "serviceLoadingRate";
+
+export const SENSITIVITY_INPUT_LABELS: Record<SensitivityInput, string> = {
+  hardness: "Hardness",
+  gallonsPerDay: "Water use per day",
+  reservePercent: "Reserve capacity",
+  capacityPerFt3: "Capacity per resin volume",
+  peakFlowGpm: "Peak flow",
+  serviceLoadingRate: "Service loading rate",
+};
+
+export type SensitivityOutput = "resinFt3" | "saltLbsPerRegen" | "diameterIn";
+
+export const SENSITIVITY_OUTPUTS: Record<SensitivityOutput, { label: string; quantity: Quantity; read: (result: SizingResult) => number | null }> = {
+  resinFt3: { label: "Resin volume per tank (Step 7)", quantity: "resinVolume", read: (result) => result.step7ResinFt3 },
+  saltLbsPerRegen: { label: "Salt per regeneration (Step 8)", quantity: "saltMass", read: (result) => result.step8SaltLbsPerRegen },
+  diameterIn: { label: "Minimum tank diameter (Step 11)", quantity: "length", read: (result) => result.step11DiameterIn },
+};
+
+export type SensitivityValues = Record<SensitivityOutput, number | null>;
+
+export type SensitivityRow = {
+  input: SensitivityInput;
+  /** Outputs with the input lowered by the chosen percentage. */
+  low: SensitivityValues;
+  high: SensitivityValues;
+};
+
+export type SensitivityAnalysis = {
+  base: SensitivityValues;
+  rows: SensitivityRow[];
+};
+
+function readOutputs(result: SizingResult): SensitivityValues {
+  return {
+    resinFt3: SENSITIVITY_OUTPUTS.resinFt3.read(result),
+    saltLbsPerRegen: SENSITIVITY_OUTPUTS.saltLbsPerRegen.read(result),
+    diameterIn: SENSITIVITY_OUTPUTS.diameterIn.read(result),
+  };
+}
+
+function scale(value: number | null, factor: number): number | null {
+  return value === null ? null : value * factor;
+}
+
+/**
+ * The design inputs with one assumption scaled by `factor`. Hardness from a water analysis
+ * scales its calcium and magnesium; capacity is varied through the override so the resin
+ * curve and derating stay out of it.
+ */
+function varyInput(inputs: SizingInputs, result: SizingResult, input: SensitivityInput, factor: number): SizingInputs {
+  switch (input) {
+    case "hardness":
+      return inputs.waterAnalysis
+        ? {
+            ...inputs,
+            waterAnalysis: {
+              ...inputs.waterAnalysis,
+              calciumMgL: scale(inputs.waterAnalysis.calciumMgL, factor),
+              magnesiumMgL: scale(inputs.waterAnalysis.magnesiumMgL, factor),
+            },
+          }
+        : { ...inputs, hardnessValue: scale(inputs.hardnessValue, factor) };
+    case "capacityPerFt3":
+      return { ...inputs, overrideCapacity: true, overrideCapacityValue: scale(result.step6CapacityPerFt3, factor) };
+    default:
+      return { ...inputs, [input]: scale(inputs[input], factor) };
+  }
+}
+
+/** Re-runs the sizing with each input lowered and raised by `percent` while everything else stays at the current design. */
+export function analyzeSensitivity(inputs: SizingInputs, result: SizingResult, percent: number): SensitivityAnalysis {
+  const inputsToVary = Object.keys(SENSITIVITY_INPUT_LABELS) as SensitivityInput[];
+  return {
+    base: readOutputs(result),
+    rows: inputsToVary.map((input) => ({
+      input,
+      low: readOutputs(sizeSoftener(varyInput(inputs, result, input, 1 - percent / 100))),
+      high: readOutputs(sizeSoftener(varyInput(inputs, result, input, 1 + percent / 100))),
+    })),
+  };
+}
+
+/** Change from `base` in percent, or `null` when either value is missing. */
+export function percentChange(value: number | null, base: number | null): number | null {
+  return value === null || base === null || base === 0 ? null : ((value - base) / base) * 100;
+}
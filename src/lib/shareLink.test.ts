@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VALUES } from "@/lib/form";
+import { decodeShareHash, encodeShareHash } from "@/lib/shareLink";
+
+describe("share links", () => {
+  it("round-trips a design", () => {
+    const form = { ...DEFAULT_VALUES, hardnessValue: "250", gallonsPerDay: "20000", regenerationMode: "counter-current" as const };
+    expect(decodeShareHash(encodeShareHash(form))).toEqual(form);
+  });
+
+  it("ignores hashes from another version", () => {
+    expect(decodeShareHash("#v=99&h=250")).toBeNull();
+  });
+
+  it("turns the backwash override on for links that predate it", () => {
+    const form = decodeShareHash("#v=1&h=250&bw=9");
+    expect(form?.backwashRate).toBe("9");
+    expect(form?.overrideBackwashRate).toBe(true);
+  });
+
+  it("keeps the override off when a custom rate is saved with it off", () => {
+    const form = { ...DEFAULT_VALUES, backwashRate: "9", overrideBackwashRate: false };
+    expect(decodeShareHash(encodeShareHash(form))?.overrideBackwashRate).toBe(false);
+  });
+
+  it("reads the retired table salt dose key", () => {
+    expect(decodeShareHash("#v=1&u=metric&sd=10")?.saltDose).toBe("160.185");
+  });
+});
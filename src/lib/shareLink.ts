@@ -0,0 +1,128 @@
+import { DEFAULT_VALUES, type FormValues, sanitizeFormValues, upgradeLegacyFormValues } from "@/lib/form";
+
+/** Bump when a short key changes meaning; older links are then ignored rather than misread. */
+export const SHARE_LINK_VERSION = 1;
+
+/**
+ * Short query keys keep links readable in email and chat. Never reuse a retired key.
+ * Retired: `sd`, the table salt dose in lb/ft³ regardless of unit system (now `dose`).
+ */
+const SHARE_KEYS: Record<keyof FormValues, string> = {
+  unitSystem: "u",
+  sizingMode: "m",
+  existingResinVolume: "xr",
+  existingTankDiameter: "xd",
+  existingSaltPerRegen: "xs",
+  existingDaysBetweenRegen: "xi",
+  hardnessValue: "h",
+  hardnessUnits: "hu",
+  useWaterAnalysis: "wa",
+  calciumMgL: "ca",
+  magnesiumMgL: "mg",
+  sodiumMgL: "na",
+  potassiumMgL: "k",
+  bicarbonateMgL: "hco3",
+  chlorideMgL: "cl",
+  sulfateMgL: "so4",
+  nitrateMgL: "no3",
+  tdsMgL: "tds",
+  ph: "ph",
+  useCompensation: "c",
+  ironPpm: "fe",
+  manganesePpm: "mn",
+  gallonsPerDay: "q",
+  daysBetweenRegen: "d",
+  reservePercent: "r",
+  regenerationControl: "rc",
+  meteredTankModel: "mt",
+  peakDayGallons: "pdq",
+  resinType: "rt",
+  customResinName: "crn",
+  customResinCapacity4: "cr4",
+  customResinCapacity6: "cr6",
+  customResinCapacity8: "cr8",
+  customResinCapacity10: "cr10",
+  customResinCapacity12: "cr12",
+  customResinCapacity15: "cr15",
+  customResinMaxTemperature: "crt",
+  customResinServiceRateMin: "crs",
+  customResinServiceRateMax: "crx",
+  customResinBackwashRate: "crb",
+  saltDose: "dose",
+  overrideCapacity: "oc",
+  overrideCapacityValue: "ocv",
+  saltDissolutionFactor: "sf",
+  regenerationMode: "rm",
+  effluentTargetMgL: "et",
+  peakFlowGpm: "pf",
+  serviceLoadingRate: "sl",
+  overrideBackwashRate: "obw",
+  backwashRate: "bw",
+  waterTemperature: "t",
+  backwashExpansionPercent: "bx",
+  systemConfig: "cfg",
+  unitsInService: "n",
+  backwashMinutes: "bwm",
+  brineConcentrationPercent: "bc",
+  brineDrawRate: "bd",
+  slowRinseBedVolumes: "sr",
+  fastRinseRate: "fr",
+  fastRinseMinutes: "frm",
+  saltType: "st",
+  refillIntervalDays: "ri",
+  saltPrice: "sp",
+  saltPriceUnit: "spu",
+  waterSewerCostPerKgal: "ws",
+  valvePowerWatts: "vw",
+  electricityCostPerKwh: "el",
+  resinPricePerFt3: "rp",
+  resinReplacementYears: "ry",
+};
+
+/** Encodes only the fields that differ from the defaults, as a `#`-prefixed URL hash. */
+export function encodeShareHash(form: FormValues): string {
+  const params = new URLSearchParams();
+  params.set("v", String(SHARE_LINK_VERSION));
+
+  for (const key of Object.keys(SHARE_KEYS) as (keyof FormValues)[]) {
+    const value = form[key];
+    // Links without `obw` but with a custom `bw` predate the override and restore it as on.
+    const keepsOverrideFlag = key === "overrideBackwashRate" && form.backwashRate !== DEFAULT_VALUES.backwashRate;
+    if (value === DEFAULT_VALUES[key] && !keepsOverrideFlag) {
+      continue;
+    }
+    params.set(SHARE_KEYS[key], typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+  }
+
+  return `#${params.toString()}`;
+}
+
+/**
+ * Restores a design from a URL hash. Returns `null` when the hash is not a share link or
+ * was written by an unsupported version; invalid individual fields fall back to defaults.
+ */
+export function decodeShareHash(hash: string): FormValues | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (params.get("v") !== String(SHARE_LINK_VERSION)) {
+    return null;
+  }
+
+  const raw: Partial<Record<keyof FormValues, unknown>> = {};
+  for (const key of Object.keys(SHARE_KEYS) as (keyof FormValues)[]) {
+    const value = params.get(SHARE_KEYS[key]);
+    if (value !== null) {
+      raw[key] = value;
+    }
+  }
+  const legacySaltDose = params.get("sd");
+  if (legacySaltDose !== null && raw.saltDose === undefined) {
+    raw.saltDose = Number(legacySaltDose);
+  }
+
+  return sanitizeFormValues(upgradeLegacyFormValues(raw));
+}
+
+export function buildShareUrl(form: FormValues): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${encodeShareHash(form)}`;
+}
@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+import { analyzeMeteredRegeneration } from "@/lib/metered";
+import { RESIN_PROFILES } from "@/lib/resins";
+import { GALLONS_PER_FT3, type SizingInputs, sizeSoftener } from "@/lib/sizing";
+import { analyzeWater, type WaterAnalysis } from "@/lib/waterAnalysis";
+
+const STANDARD_GEL = RESIN_PROFILES["standard-gel"];
+
+/** A complete design: 20 gpg, 10,000 gpd, 2 days between regenerations, 60 gpm peak. */
+function designInputs(overrides: Partial<SizingInputs> = {}): SizingInputs {
+  return {
+    hardnessValue: 20,
+    hardnessUnits: "grains per gallon (gpg)",
+    waterAnalysis: null,
+    useCompensation: false,
+    ironPpm: 0,
+    manganesePpm: 0,
+    gallonsPerDay: 10000,
+    daysBetweenRegen: 2,
+    reservePercent: 15,
+    regenerationControl: "time-clock",
+    meteredTankModel: null,
+    peakDayGallons: null,
+    saltDose: 8,
+    resin: STANDARD_GEL,
+    overrideCapacity: false,
+    overrideCapacityValue: null,
+    saltDissolutionFactor: 3,
+    peakFlowGpm: 60,
+    serviceLoadingRate: 7,
+    backwashRate: 7,
+    overrideBackwashRate: true,
+    waterTemperatureF: 60,
+    backwashExpansionPercent: 50,
+    systemConfig: "single",
+    unitsInService: 2,
+    backwashMinutes: 10,
+    brineConcentrationPercent: 10,
+    brineDrawRate: 0.5,
+    slowRinseBedVolumes: 2,
+    fastRinseRate: 5,
+    fastRinseMinutes: 8,
+    regenerationMode: "co-current",
+    feedTdsMgL: 500,
+    effluentTargetMgL: null,
+    saltType: "solar",
+    refillIntervalDays: 14,
+    ...overrides,
+  };
+}
+
+describe("sizeSoftener happy path", () => {
+  const result = sizeSoftener(designInputs());
+  const designGrains = (20 * 10000 * 2) / 0.85;
+  const resinFt3 = designGrains / 22500;
+  const bedAreaFt2 = 60 / 7;
+
+  it("carries the hardness load through Steps 1 to 5", () => {
+    expect(result.requiredInputMissing).toBe(false);
+    expect(result.reserveTooHigh).toBe(false);
+    expect(result.step1HardnessGpg).toBe(20);
+    expect(result.step2DesignHardnessGpg).toBe(20);
+    expect(result.step3GrainsPerDay).toBe(200000);
+    expect(result.step4RequiredGrainsPerRun).toBe(400000);
+    expect(result.step5DesignGrainsPerRun).toBeCloseTo(designGrains, 6);
+    expect(result.step5Message).toBeNull();
+  });
+
+  it("sizes resin, salt and brine from the capacity curve", () => {
+    expect(result.step6CapacityPerFt3).toBe(22500);
+    expect(result.step6Message).toBeNull();
+    expect(result.step7ResinFt3).toBeCloseTo(resinFt3, 6);
+    expect(result.step8SaltLbsPerRegen).toBeCloseTo(resinFt3 * 8, 6);
+    expect(result.step9BrineWaterGallons).toBeCloseTo((resinFt3 * 8) / 3, 6);
+  });
+
+  it("sizes the bed, vessel and backwash from peak flow", () => {
+    expect(result.step10BedAreaFt2).toBeCloseTo(bedAreaFt2, 6);
+    expect(result.step11DiameterIn).toBeCloseTo(24 * Math.sqrt(bedAreaFt2 / Math.PI), 6);
+    expect(result.step12BackwashFlowGpm).toBeCloseTo(bedAreaFt2 * 7, 6);
+    expect(result.step12Message).toBeNull();
+    expect(result.step13Tank?.model).toBe("42x72");
+    expect(result.step13Message).toBeNull();
+    expect(result.totalUnits).toBe(1);
+    expect(result.totalResinFt3).toBeCloseTo(resinFt3, 6);
+  });
+
+  it("totals the regeneration cycle", () => {
+    expect(result.step15BackwashGallons).toBeCloseTo(bedAreaFt2 * 7 * 10, 6);
+    expect(result.step16BrineDrawGpm).toBeCloseTo(0.5 * resinFt3, 6);
+    expect(result.step17SlowRinseGallons).toBeCloseTo(2 * resinFt3 * GALLONS_PER_FT3, 6);
+    expect(result.step18FastRinseGallons).toBeCloseTo(5 * bedAreaFt2 * 8, 6);
+    expect(result.step19WastewaterGallons).toBeCloseTo(
+      (result.step15BackwashGallons ?? 0) +
+        (result.step16BrineGallons ?? 0) +
+        (result.step17SlowRinseGallons ?? 0) +
+        (result.step18FastRinseGallons ?? 0),
+      6,
+    );
+    expect(result.step19Message).toBeNull();
+  });
+
+  it("predicts leakage and sizes the brine tank", () => {
+    expect(result.step20LeakageMgL).toBeCloseTo(3, 6);
+    expect(result.step20CounterCurrentLeakageMgL).toBeCloseTo(0.3, 6);
+    expect(result.step20Message).toBeNull();
+    expect(result.step21RegenerationsPerMonth).toBeCloseTo(365 / 12 / 2, 6);
+    expect(result.step21SaltLbsPerMonth).toBeCloseTo(resinFt3 * 8 * (365 / 12 / 2), 6);
+    expect(result.step22BrineTank).not.toBeNull();
+    expect(result.step22DaysOfAutonomy).toBeGreaterThanOrEqual(14);
+    expect(result.step22Message).toBeNull();
+  });
+
+  it("sizes salt storage from the metered regeneration frequency", () => {
+    const inputs = designInputs({ regenerationControl: "metered", meteredTankModel: "60x72" });
+    const metered = sizeSoftener(inputs);
+    const analysis = analyzeMeteredRegeneration(inputs, metered);
+    expect(metered.step21RegenerationsPerMonth).toBeCloseTo((analysis.annualRegenerations ?? 0) / 12, 6);
+    expect(metered.step21RegenerationsPerMonth).toBeLessThan(365 / 12 / 2);
+    expect(metered.step21SaltLbsPerMonth).toBeCloseTo(60 * 8 * (metered.step21RegenerationsPerMonth ?? 0), 6);
+    expect(metered.step21Message).toBeNull();
+  });
+
+  it("converts each hardness unit to gpg", () => {
+    expect(sizeSoftener(designInputs({ hardnessValue: 171, hardnessUnits: "mg/L (ppm) as CaCO₃" })).step1HardnessGpg).toBeCloseTo(10, 6);
+    expect(sizeSoftener(designInputs({ hardnessValue: 17.1, hardnessUnits: "°fH (French degrees)" })).step1HardnessGpg).toBeCloseTo(10, 6);
+  });
+
+  it("takes hardness and capacity derating from a water analysis", () => {
+    const analysis: WaterAnalysis = {
+      calciumMgL: 80,
+      magnesiumMgL: 20,
+      sodiumMgL: 150,
+      potassiumMgL: null,
+      ironMgL: null,
+      manganeseMgL: null,
+      bicarbonateMgL: null,
+      chlorideMgL: null,
+      sulfateMgL: null,
+      nitrateMgL: null,
+      tdsMgL: 1500,
+      ph: null,
+    };
+    const expected = analyzeWater(analysis);
+    const analyzed = sizeSoftener(designInputs({ hardnessValue: null, waterAnalysis: analysis }));
+    expect(analyzed.requiredInputMissing).toBe(false);
+    expect(analyzed.step1HardnessGpg).toBeCloseTo((expected.hardnessMgL ?? 0) / 17.1, 6);
+    expect(analyzed.step6DeratingFactor).toBe(expected.capacityDeratingFactor);
+    expect(analyzed.step6CapacityPerFt3).toBeCloseTo(22500 * expected.capacityDeratingFactor, 6);
+  });
+
+  it("adds iron and manganese when compensation is on", () => {
+    const compensated = sizeSoftener(designInputs({ useCompensation: true, ironPpm: 1, manganesePpm: 0.5 }));
+    expect(compensated.step2DesignHardnessGpg).toBe(26);
+  });
+
+  it("splits the load across tanks in a parallel train", () => {
+    const parallel = sizeSoftener(designInputs({ systemConfig: "parallel", unitsInService: 2 }));
+    expect(parallel.totalUnits).toBe(3);
+    expect(parallel.step7ResinFt3).toBeCloseTo(resinFt3 / 2, 6);
+    expect(parallel.step10BedAreaFt2).toBeCloseTo(bedAreaFt2 / 2, 6);
+    expect(parallel.totalSaltLbsPerInterval).toBeCloseTo(resinFt3 * 8, 6);
+  });
+});
+
+describe("sizeSoftener blocked and missing inputs", () => {
+  it("blocks Step 5 and later when reserve is 100% or more", () => {
+    const result = sizeSoftener(designInputs({ reservePercent: 100 }));
+    expect(result.reserveTooHigh).toBe(true);
+    expect(result.step5Message).toBe("Reserve Capacity must be below 100%. Step 5 and all later steps are blocked.");
+    expect(result.step6Message).toBe(result.step5Message);
+    expect(result.step7Message).toBe(result.step5Message);
+    expect(result.step12Message).toBe(result.step5Message);
+    expect(result.step20Message).toBe(result.step5Message);
+    expect(result.step20LeakageMgL).toBeNull();
+    expect(result.step5DesignGrainsPerRun).toBeNull();
+    expect(result.step7ResinFt3).toBeNull();
+    expect(result.step10BedAreaFt2).toBeNull();
+  });
+
+  it("asks for reserve when it is blank and rejects a negative reserve", () => {
+    expect(sizeSoftener(designInputs({ reservePercent: null })).step5Message).toBe("Enter Reserve Capacity to calculate Step 5.");
+    expect(sizeSoftener(designInputs({ reservePercent: -5 })).step5Message).toBe("Reserve Capacity cannot be negative.");
+  });
+
+  it("reports missing required inputs", () => {
+    const result = sizeSoftener(designInputs({ hardnessValue: null }));
+    expect(result.requiredInputMissing).toBe(true);
+    expect(result.step1HardnessGpg).toBeNull();
+    expect(result.step7Message).toBe("Complete Steps 5 and 6 to calculate resin volume.");
+    expect(result.step8Message).toBe("Complete Step 7 to calculate salt per regeneration.");
+    expect(result.step9Message).toBe("Complete Step 8 to calculate brine refill water.");
+    expect(result.step13Message).toBe("Complete Steps 5 and 6 to calculate resin volume.");
+  });
+
+  it("rejects an override capacity of zero", () => {
+    const result = sizeSoftener(designInputs({ overrideCapacity: true, overrideCapacityValue: 0 }));
+    expect(result.step6Message).toBe("Override capacity per cubic foot must be greater than 0.");
+    expect(result.step6CapacityPerFt3).toBeNull();
+    expect(result.step7Message).toBe("Complete Steps 5 and 6 to calculate resin volume.");
+  });
+
+  it("uses a positive override capacity", () => {
+    const result = sizeSoftener(designInputs({ overrideCapacity: true, overrideCapacityValue: 20000 }));
+    expect(result.step6CapacityPerFt3).toBe(20000);
+  });
+
+  it("blocks Step 7 and later when a parallel train has no whole number of units", () => {
+    const result = sizeSoftener(designInputs({ systemConfig: "parallel", unitsInService: 1.5 }));
+    expect(result.systemMessage).toBe("Units in service must be a whole number of at least 1. Steps 7 and later are blocked.");
+    expect(result.step7Message).toBe(result.systemMessage);
+    expect(result.step10Message).toBe(result.systemMessage);
+    expect(result.totalUnits).toBeNull();
+  });
+
+  it("asks for a complete custom resin profile", () => {
+    const result = sizeSoftener(designInputs({ resin: null, overrideBackwashRate: false }));
+    expect(result.step6Message).toMatch(/^Complete the custom resin profile/);
+    expect(result.step12Message).toBe(result.step6Message);
+  });
+
+  it("rejects a zero salt dose and one outside the table", () => {
+    expect(sizeSoftener(designInputs({ saltDose: 0 })).step6Message).toBe("Salt Dose must be greater than 0.");
+    expect(sizeSoftener(designInputs({ saltDose: 20 })).step6Message).toBe("Salt dose must be between 4 and 15 pounds per cubic foot.");
+    const overridden = sizeSoftener(designInputs({ saltDose: 0, overrideCapacity: true, overrideCapacityValue: 20000 }));
+    expect(overridden.step8Message).toBe("Salt Dose must be greater than 0.");
+    expect(overridden.step20Message).toBe("Salt Dose must be greater than 0.");
+  });
+
+  it("rejects a zero salt dissolution factor", () => {
+    expect(sizeSoftener(designInputs({ saltDissolutionFactor: 0 })).step9Message).toBe("Salt Dissolution Factor must be greater than 0.");
+  });
+
+  it("blocks Steps 10 to 12 without a peak flow", () => {
+    const result = sizeSoftener(designInputs({ peakFlowGpm: null }));
+    expect(result.requiredInputMissing).toBe(true);
+    expect(result.step10Message).toBe("Peak Flow Rate must be greater than 0.");
+    expect(result.step11Message).toBe(result.step10Message);
+    expect(result.step12Message).toBe(result.step10Message);
+    expect(result.step13Message).toBe(result.step10Message);
+    expect(result.step10BedAreaFt2).toBeNull();
+  });
+
+  it("blocks Steps 10 to 12 with a zero service loading rate", () => {
+    const result = sizeSoftener(designInputs({ serviceLoadingRate: 0 }));
+    expect(result.serviceLoadingError).toBe("Service Loading Rate must be greater than 0. Steps 10 through 12 are blocked.");
+    expect(result.step10Message).toBe(result.serviceLoadingError);
+  });
+
+  it("explains each missing backwash input", () => {
+    expect(sizeSoftener(designInputs({ backwashRate: 0 })).step12Message).toBe("Backwash Rate must be greater than 0.");
+    expect(sizeSoftener(designInputs({ overrideBackwashRate: false, backwashExpansionPercent: 0 })).step12Message).toBe(
+      "Target Bed Expansion must be greater than 0.",
+    );
+    expect(sizeSoftener(designInputs({ overrideBackwashRate: false, waterTemperatureF: null })).step12Message).toBe(
+      "Enter a water temperature between freezing and boiling to calculate the backwash rate.",
+    );
+    expect(sizeSoftener(designInputs({ overrideBackwashRate: false })).step12BackwashRate).not.toBeNull();
+  });
+
+  it("reports when no catalog vessel is large enough", () => {
+    const result = sizeSoftener(designInputs({ gallonsPerDay: 200000 }));
+    expect(result.step13Tank).toBeNull();
+    expect(result.step13Message).toMatch(/^No standard vessel in the catalog/);
+  });
+
+  it("rejects zero regeneration cycle settings", () => {
+    expect(sizeSoftener(designInputs({ backwashMinutes: 0 })).step15Message).toBe("Backwash Time must be greater than 0.");
+    expect(sizeSoftener(designInputs({ brineConcentrationPercent: 30 })).step16Message).toBe(
+      "Brine Concentration must be greater than 0 and no more than 26% (saturation).",
+    );
+    expect(sizeSoftener(designInputs({ brineDrawRate: 0 })).step16Message).toBe("Brine Draw Rate must be greater than 0.");
+    const noSlowRinse = sizeSoftener(designInputs({ slowRinseBedVolumes: 0 }));
+    expect(noSlowRinse.step17Message).toBe("Slow Rinse Bed Volumes must be greater than 0.");
+    expect(noSlowRinse.step19Message).toBe(noSlowRinse.step17Message);
+    expect(sizeSoftener(designInputs({ fastRinseRate: 0 })).step18Message).toBe("Fast Rinse Rate must be greater than 0.");
+    expect(sizeSoftener(designInputs({ fastRinseMinutes: 0 })).step18Message).toBe("Fast Rinse Time must be greater than 0.");
+  });
+
+  it("needs feed TDS for leakage and suggests a dose for a missed target", () => {
+    expect(sizeSoftener(designInputs({ feedTdsMgL: null })).step20Message).toBe(
+      "Enter feed TDS or a water analysis to predict hardness leakage.",
+    );
+    const missed = sizeSoftener(designInputs({ effluentTargetMgL: 2.5 }));
+    expect(missed.step20MeetsTarget).toBe(false);
+    expect(missed.step20CounterCurrentMeetsTarget).toBe(true);
+    expect(missed.step20SuggestedDose).toBe(10);
+  });
+
+  it("needs a refill interval and a brine tank that fits", () => {
+    expect(sizeSoftener(designInputs({ refillIntervalDays: 0 })).step22Message).toBe("Salt Refill Interval must be greater than 0.");
+    const bulk = sizeSoftener(designInputs({ refillIntervalDays: 365 }));
+    expect(bulk.step22BrineTank).toBeNull();
+    expect(bulk.step22Message).toMatch(/^No standard brine tank stores this much salt/);
+  });
+});
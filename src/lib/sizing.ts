@@ -0,0 +1,697 @@
+import { backwashRateForExpansion } from "@/lib/backwash";
+import { brineTankSaltCapacityLbs, SALT_PROPERTIES, type SaltType, selectBrineTank, type StandardBrineTank } from "@/lib/brineTanks";
+import { lowestDoseMeetingTarget, predictLeakageMgL, type RegenerationMode } from "@/lib/leakage";
+import { analyzeMeteredRegeneration, type RegenerationControl } from "@/lib/metered";
+import { capacityForSaltDose, type ResinProfile, type SaltDose, SALT_DOSES } from "@/lib/resins";
+import { selectStandardTank, type StandardTank, tankAreaFt2 } from "@/lib/tanks";
+import { analyzeWater, type WaterAnalysis, type WaterAnalysisResult } from "@/lib/waterAnalysis";
+
+export type HardnessUnit =
+  | "mg/L (ppm) as CaCO₃"
+  | "grains per gallon (gpg)"
+  | "mmol/L"
+  | "°dH (German degrees)"
+  | "°fH (French degrees)";
+
+export const HARDNESS_UNITS: HardnessUnit[] = [
+  "mg/L (ppm) as CaCO₃",
+  "grains per gallon (gpg)",
+  "mmol/L",
+  "°dH (German degrees)",
+  "°fH (French degrees)",
+];
+
+/** mg/L as CaCO₃ represented by one unit of each hardness scale. */
+const MG_PER_L_CACO3: Record<HardnessUnit, number> = {
+  "mg/L (ppm) as CaCO₃": 1,
+  "grains per gallon (gpg)": 17.1,
+  "mmol/L": 100.09,
+  "°dH (German degrees)": 17.848,
+  "°fH (French degrees)": 10,
+};
+
+export const WATER_LBS_PER_GALLON = 8.34;
+export const GALLONS_PER_FT3 = 7.48;
+/** Sodium chloride brine is saturated at about 26% by weight. */
+export const SATURATED_BRINE_PERCENT = 26;
+const DAYS_PER_MONTH = 365 / 12;
+
+/**
+ * How the duty is split across vessels. Twin alternating keeps one tank in service while the
+ * other regenerates or stands by; parallel runs N tanks sharing the flow plus one standby (N + 1).
+ */
+export type SystemConfig = "single" | "twin-alternating" | "parallel";
+
+export const SYSTEM_CONFIG_LABELS: Record<SystemConfig, string> = {
+  single: "Single tank",
+  "twin-alternating": "Twin alternating (1 in service + 1 standby)",
+  parallel: "Parallel N + 1 (N in service + 1 standby)",
+};
+
+/**
+ * Numeric inputs for the sizing engine. `null` means the value was not entered;
+ * the engine reports which steps that blocks instead of throwing.
+ */
+export type SizingInputs = {
+  hardnessValue: number | null;
+  hardnessUnits: HardnessUnit;
+  /** When present, hardness comes from its calcium and magnesium instead of `hardnessValue`. */
+  waterAnalysis: WaterAnalysis | null;
+  useCompensation: boolean;
+  ironPpm: number | null;
+  manganesePpm: number | null;
+  gallonsPerDay: number | null;
+  daysBetweenRegen: number | null;
+  reservePercent: number | null;
+  regenerationControl: RegenerationControl;
+  /** Catalog tank the meter is set for; `null` uses the vessel selected in Step 13. */
+  meteredTankModel: string | null;
+  /** Highest daily use in gallons, for metered regeneration frequency; `null` uses the average. */
+  peakDayGallons: number | null;
+  /** Pounds of salt per cubic foot; doses between `SALT_DOSES` use an interpolated capacity. */
+  saltDose: number | null;
+  /** Capacity curve, limits and backwash data of the selected resin; `null` for an incomplete custom profile. */
+  resin: ResinProfile | null;
+  overrideCapacity: boolean;
+  overrideCapacityValue: number | null;
+  saltDissolutionFactor: number | null;
+  peakFlowGpm: number | null;
+  serviceLoadingRate: number | null;
+  /** Manual backwash rate, used only when `overrideBackwashRate` is on. */
+  backwashRate: number | null;
+  overrideBackwashRate: boolean;
+  waterTemperatureF: number | null;
+  backwashExpansionPercent: number | null;
+  systemConfig: SystemConfig;
+  unitsInService: number | null;
+  backwashMinutes: number | null;
+  brineConcentrationPercent: number | null;
+  brineDrawRate: number | null;
+  slowRinseBedVolumes: number | null;
+  fastRinseRate: number | null;
+  fastRinseMinutes: number | null;
+  regenerationMode: RegenerationMode;
+  /** Feed TDS in mg/L used when there is no water analysis. */
+  feedTdsMgL: number | null;
+  /** Required effluent hardness in mg/L as CaCO₃; `null` skips the comparison. */
+  effluentTargetMgL: number | null;
+  saltType: SaltType;
+  /** Days between salt deliveries the brine tank must cover. */
+  refillIntervalDays: number | null;
+};
+
+/**
+ * Result of every sizing step. Each `stepN...` value is `null` when the step could
+ * not be computed, and the matching `stepNMessage` carries the blocking reason.
+ */
+export type SizingResult = {
+  requiredInputMissing: boolean;
+  reserveTooHigh: boolean;
+  serviceLoadingError: string | null;
+  unitsInService: number | null;
+  totalUnits: number | null;
+  systemMessage: string | null;
+  waterAnalysis: WaterAnalysisResult | null;
+  step1HardnessGpg: number | null;
+  step2DesignHardnessGpg: number | null;
+  step3GrainsPerDay: number | null;
+  step4RequiredGrainsPerRun: number | null;
+  step5DesignGrainsPerRun: number | null;
+  step5Message: string | null;
+  step6CapacityPerFt3: number | null;
+  /** Water-analysis derating applied to the curve capacity; `null` when none applies. */
+  step6DeratingFactor: number | null;
+  step6Message: string | null;
+  step7ResinFt3: number | null;
+  step7Message: string | null;
+  step8SaltLbsPerRegen: number | null;
+  step8Message: string | null;
+  step9BrineWaterGallons: number | null;
+  step9Message: string | null;
+  step10BedAreaFt2: number | null;
+  step10Message: string | null;
+  step11DiameterFt: number | null;
+  step11DiameterIn: number | null;
+  step11Message: string | null;
+  /** Backwash rate in gpm/ft² used for Step 12, manual or temperature-corrected. */
+  step12BackwashRate: number | null;
+  step12BackwashFlowGpm: number | null;
+  step12Message: string | null;
+  step13Tank: StandardTank | null;
+  step13BedDepthIn: number | null;
+  step13FreeboardIn: number | null;
+  step13ServiceLoadingRate: number | null;
+  step13Message: string | null;
+  totalResinFt3: number | null;
+  totalSaltLbsPerInterval: number | null;
+  step15BackwashGallons: number | null;
+  step15Message: string | null;
+  step16BrineGallons: number | null;
+  step16BrineDrawGpm: number | null;
+  step16BrineDrawMinutes: number | null;
+  step16Message: string | null;
+  step17SlowRinseGallons: number | null;
+  step17SlowRinseMinutes: number | null;
+  step17Message: string | null;
+  step18FastRinseGpm: number | null;
+  step18FastRinseGallons: number | null;
+  step18Message: string | null;
+  step19WastewaterGallons: number | null;
+  step19RegenerationMinutes: number | null;
+  step19PeakDrainGpm: number | null;
+  step19Message: string | null;
+  /** Expected effluent hardness, mg/L as CaCO₃. */
+  step20LeakageMgL: number | null;
+  /** Leakage with counter-current regeneration at the same dose, when co-current is selected. */
+  step20CounterCurrentLeakageMgL: number | null;
+  step20MeetsTarget: boolean | null;
+  step20CounterCurrentMeetsTarget: boolean | null;
+  /** Lowest table dose that meets the target in the selected mode, when the current dose does not. */
+  step20SuggestedDose: SaltDose | null;
+  step20Message: string | null;
+  step21RegenerationsPerMonth: number | null;
+  step21SaltLbsPerMonth: number | null;
+  /** Salt to store for one delivery interval, insolubles included. */
+  step21StorageRequiredLbs: number | null;
+  step21Message: string | null;
+  step22BrineTank: StandardBrineTank | null;
+  step22SaltCapacityLbs: number | null;
+  step22DaysOfAutonomy: number | null;
+  step22InsolublesLbsPerMonth: number | null;
+  step22Message: string | null;
+};
+
+export function isPositive(value: number | null): value is number {
+  return value !== null && value > 0;
+}
+
+export function toHardnessGpg(value: number, units: HardnessUnit): number {
+  return units === "grains per gallon (gpg)" ? value : (value * MG_PER_L_CACO3[units]) / 17.1;
+}
+
+/**
+ * Tanks in service at once and tanks installed for a configuration. Returns `null` counts
+ * when a parallel train does not have a whole number of at least one unit in service.
+ */
+export function getUnitCounts(
+  config: SystemConfig,
+  unitsInService: number | null,
+): { inService: number; installed: number } | null {
+  if (config === "single") {
+    return { inService: 1, installed: 1 };
+  }
+  if (config === "twin-alternating") {
+    return { inService: 1, installed: 2 };
+  }
+  if (unitsInService === null || !Number.isInteger(unitsInService) || unitsInService < 1) {
+    return null;
+  }
+  return { inService: unitsInService, installed: unitsInService + 1 };
+}
+
+/**
+ * Pounds of salt carried by one gallon of brine. Specific gravity rises roughly linearly
+ * with concentration, from 1.0 for fresh water to about 1.19 at saturation.
+ */
+export function brineSaltLbsPerGallon(concentrationPercent: number): number {
+  const specificGravity = 1 + 0.0073 * concentrationPercent;
+  return WATER_LBS_PER_GALLON * specificGravity * (concentrationPercent / 100);
+}
+
+const SALT_DOSE_RANGE_MESSAGE = `Salt dose must be between ${SALT_DOSES[0]} and ${SALT_DOSES[SALT_DOSES.length - 1]} pounds per cubic foot.`;
+const CUSTOM_RESIN_MESSAGE =
+  "Complete the custom resin profile: capacity at every table salt dose, maximum temperature, service rates and backwash rate.";
+
+export function sizeSoftener(inputs: SizingInputs): SizingResult {
+  const {
+    hardnessValue,
+    gallonsPerDay,
+    daysBetweenRegen,
+    reservePercent,
+    overrideCapacityValue,
+    saltDissolutionFactor,
+    peakFlowGpm,
+    serviceLoadingRate,
+    backwashRate,
+    saltDose,
+    resin,
+  } = inputs;
+
+  const waterAnalysis = inputs.waterAnalysis ? analyzeWater(inputs.waterAnalysis) : null;
+  const rawHardness = waterAnalysis ? waterAnalysis.hardnessMgL : hardnessValue;
+  const rawHardnessUnits: HardnessUnit = waterAnalysis ? "mg/L (ppm) as CaCO₃" : inputs.hardnessUnits;
+
+  const ironPpm = inputs.useCompensation ? Math.max(0, inputs.ironPpm ?? 0) : 0;
+  const manganesePpm = inputs.useCompensation ? Math.max(0, inputs.manganesePpm ?? 0) : 0;
+
+  const requiredInputMissing =
+    !isPositive(rawHardness) ||
+    !isPositive(gallonsPerDay) ||
+    !isPositive(daysBetweenRegen) ||
+    !isPositive(saltDose) ||
+    !isPositive(peakFlowGpm) ||
+    !isPositive(serviceLoadingRate);
+
+  const reserveTooHigh = reservePercent !== null && reservePercent >= 100;
+  const reserveBlockMessage = reserveTooHigh
+    ? "Reserve Capacity must be below 100%. Step 5 and all later steps are blocked."
+    : null;
+
+  const serviceLoadingError =
+    serviceLoadingRate !== null && serviceLoadingRate <= 0
+      ? "Service Loading Rate must be greater than 0. Steps 10 through 12 are blocked."
+      : null;
+
+  let step1HardnessGpg: number | null = null;
+  if (isPositive(rawHardness)) {
+    step1HardnessGpg = toHardnessGpg(rawHardness, rawHardnessUnits);
+  }
+
+  let step2DesignHardnessGpg: number | null = null;
+  if (step1HardnessGpg !== null) {
+    step2DesignHardnessGpg = inputs.useCompensation
+      ? step1HardnessGpg + 4 * (ironPpm + manganesePpm)
+      : step1HardnessGpg;
+  }
+
+  let step3GrainsPerDay: number | null = null;
+  if (step2DesignHardnessGpg !== null && isPositive(gallonsPerDay)) {
+    step3GrainsPerDay = step2DesignHardnessGpg * gallonsPerDay;
+  }
+
+  let step4RequiredGrainsPerRun: number | null = null;
+  if (step3GrainsPerDay !== null && isPositive(daysBetweenRegen)) {
+    step4RequiredGrainsPerRun = step3GrainsPerDay * daysBetweenRegen;
+  }
+
+  let step5DesignGrainsPerRun: number | null = null;
+  let step5Message: string | null = reserveBlockMessage;
+  if (!reserveBlockMessage && step4RequiredGrainsPerRun !== null) {
+    if (reservePercent === null) {
+      step5Message = "Enter Reserve Capacity to calculate Step 5.";
+    } else if (reservePercent < 0) {
+      step5Message = "Reserve Capacity cannot be negative.";
+    } else {
+      step5DesignGrainsPerRun = step4RequiredGrainsPerRun / (1 - reservePercent / 100);
+    }
+  }
+
+  let step6CapacityPerFt3: number | null = null;
+  let step6DeratingFactor: number | null = null;
+  let step6Message: string | null = reserveBlockMessage;
+  if (!reserveBlockMessage) {
+    if (inputs.overrideCapacity) {
+      if (isPositive(overrideCapacityValue)) {
+        step6CapacityPerFt3 = overrideCapacityValue;
+      } else {
+        step6Message = "Override capacity per cubic foot must be greater than 0.";
+      }
+    } else if (!resin) {
+      step6Message = CUSTOM_RESIN_MESSAGE;
+    } else if (!isPositive(saltDose)) {
+      step6Message = "Salt Dose must be greater than 0.";
+    } else {
+      step6CapacityPerFt3 = capacityForSaltDose(resin, saltDose);
+      if (step6CapacityPerFt3 === null) {
+        step6Message = SALT_DOSE_RANGE_MESSAGE;
+      } else if (waterAnalysis) {
+        step6DeratingFactor = waterAnalysis.capacityDeratingFactor;
+        step6CapacityPerFt3 *= step6DeratingFactor;
+      }
+    }
+  }
+
+  const unitCounts = getUnitCounts(inputs.systemConfig, inputs.unitsInService);
+  const unitsInService = unitCounts?.inService ?? 1;
+  const totalUnits = unitCounts?.installed ?? null;
+  const systemMessage = unitCounts
+    ? null
+    : "Units in service must be a whole number of at least 1. Steps 7 and later are blocked.";
+  const perTankBlockMessage = reserveBlockMessage ?? systemMessage;
+  const perTankPeakFlowGpm = isPositive(peakFlowGpm) ? peakFlowGpm / unitsInService : null;
+
+  let step7ResinFt3: number | null = null;
+  let step7Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage && step5DesignGrainsPerRun !== null && step6CapacityPerFt3 !== null) {
+    step7ResinFt3 = step5DesignGrainsPerRun / unitsInService / step6CapacityPerFt3;
+    step7Message = null;
+  } else if (!perTankBlockMessage && !step7Message) {
+    step7Message = "Complete Steps 5 and 6 to calculate resin volume.";
+  }
+
+  let step8SaltLbsPerRegen: number | null = null;
+  let step8Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage && step7ResinFt3 !== null) {
+    if (isPositive(saltDose)) {
+      step8SaltLbsPerRegen = step7ResinFt3 * saltDose;
+      step8Message = null;
+    } else {
+      step8Message = "Salt Dose must be greater than 0.";
+    }
+  } else if (!perTankBlockMessage && !step8Message) {
+    step8Message = "Complete Step 7 to calculate salt per regeneration.";
+  }
+
+  let step9BrineWaterGallons: number | null = null;
+  let step9Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage && step8SaltLbsPerRegen !== null) {
+    if (isPositive(saltDissolutionFactor)) {
+      step9BrineWaterGallons = step8SaltLbsPerRegen / saltDissolutionFactor;
+      step9Message = null;
+    } else {
+      step9Message = "Salt Dissolution Factor must be greater than 0.";
+    }
+  } else if (!perTankBlockMessage && !step9Message) {
+    step9Message = "Complete Step 8 to calculate brine refill water.";
+  }
+
+  let step10BedAreaFt2: number | null = null;
+  let step10Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage) {
+    if (perTankPeakFlowGpm === null) {
+      step10Message = "Peak Flow Rate must be greater than 0.";
+    } else if (!isPositive(serviceLoadingRate)) {
+      step10Message = "Service Loading Rate must be greater than 0. Steps 10 through 12 are blocked.";
+    } else {
+      step10BedAreaFt2 = perTankPeakFlowGpm / serviceLoadingRate;
+      step10Message = null;
+    }
+  }
+
+  let step11DiameterFt: number | null = null;
+  let step11DiameterIn: number | null = null;
+  let step11Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage && step10BedAreaFt2 !== null) {
+    step11DiameterFt = 2 * Math.sqrt(step10BedAreaFt2 / Math.PI);
+    step11DiameterIn = step11DiameterFt * 12;
+    step11Message = null;
+  } else if (!perTankBlockMessage && step10Message) {
+    step11Message = step10Message;
+  }
+
+  let step12BackwashRate: number | null = null;
+  let step12BackwashFlowGpm: number | null = null;
+  let step12Message: string | null = perTankBlockMessage;
+  if (inputs.overrideBackwashRate) {
+    step12BackwashRate = isPositive(backwashRate) ? backwashRate : null;
+  } else if (
+    resin &&
+    inputs.waterTemperatureF !== null &&
+    inputs.waterTemperatureF > 32 &&
+    inputs.waterTemperatureF < 212 &&
+    isPositive(inputs.backwashExpansionPercent)
+  ) {
+    step12BackwashRate = backwashRateForExpansion(inputs.waterTemperatureF, resin, inputs.backwashExpansionPercent);
+  }
+  if (!perTankBlockMessage && step10BedAreaFt2 !== null) {
+    if (step12BackwashRate !== null) {
+      step12BackwashFlowGpm = step10BedAreaFt2 * step12BackwashRate;
+      step12Message = null;
+    } else if (inputs.overrideBackwashRate) {
+      step12Message = "Backwash Rate must be greater than 0.";
+    } else if (!resin) {
+      step12Message = CUSTOM_RESIN_MESSAGE;
+    } else if (!isPositive(inputs.backwashExpansionPercent)) {
+      step12Message = "Target Bed Expansion must be greater than 0.";
+    } else {
+      step12Message = "Enter a water temperature between freezing and boiling to calculate the backwash rate.";
+    }
+  } else if (!perTankBlockMessage && step10Message) {
+    step12Message = step10Message;
+  }
+
+  let step13Tank: StandardTank | null = null;
+  let step13BedDepthIn: number | null = null;
+  let step13FreeboardIn: number | null = null;
+  let step13ServiceLoadingRate: number | null = null;
+  let step13Message: string | null = perTankBlockMessage;
+  if (!perTankBlockMessage && step7ResinFt3 !== null && step10BedAreaFt2 !== null && perTankPeakFlowGpm !== null) {
+    step13Tank = selectStandardTank(step7ResinFt3, step10BedAreaFt2);
+    if (step13Tank) {
+      const tankArea = tankAreaFt2(step13Tank);
+      step13BedDepthIn = (step7ResinFt3 / tankArea) * 12;
+      step13FreeboardIn = step13Tank.sideShellIn - step13BedDepthIn;
+      step13ServiceLoadingRate = perTankPeakFlowGpm / tankArea;
+      step13Message = null;
+    } else {
+      step13Message = "No standard vessel in the catalog holds this resin volume and bed area. Split the load across more tanks in parallel.";
+    }
+  } else if (!perTankBlockMessage) {
+    step13Message = step7Message ?? step10Message ?? "Complete Steps 7 and 10 to select a standard vessel.";
+  }
+
+  let totalResinFt3: number | null = null;
+  let totalSaltLbsPerInterval: number | null = null;
+  if (totalUnits !== null && step7ResinFt3 !== null) {
+    totalResinFt3 = step7ResinFt3 * totalUnits;
+  }
+  if (step8SaltLbsPerRegen !== null) {
+    totalSaltLbsPerInterval = step8SaltLbsPerRegen * unitsInService;
+  }
+
+  let step15BackwashGallons: number | null = null;
+  let step15Message: string | null = step12Message;
+  if (step12BackwashFlowGpm !== null) {
+    if (isPositive(inputs.backwashMinutes)) {
+      step15BackwashGallons = step12BackwashFlowGpm * inputs.backwashMinutes;
+      step15Message = null;
+    } else {
+      step15Message = "Backwash Time must be greater than 0.";
+    }
+  }
+
+  let step16BrineGallons: number | null = null;
+  let step16BrineDrawGpm: number | null = null;
+  let step16BrineDrawMinutes: number | null = null;
+  let step16Message: string | null = step8Message;
+  if (step7ResinFt3 !== null && step8SaltLbsPerRegen !== null) {
+    const concentration = inputs.brineConcentrationPercent;
+    if (!isPositive(concentration) || concentration > SATURATED_BRINE_PERCENT) {
+      step16Message = `Brine Concentration must be greater than 0 and no more than ${SATURATED_BRINE_PERCENT}% (saturation).`;
+    } else if (!isPositive(inputs.brineDrawRate)) {
+      step16Message = "Brine Draw Rate must be greater than 0.";
+    } else {
+      step16BrineGallons = step8SaltLbsPerRegen / brineSaltLbsPerGallon(concentration);
+      step16BrineDrawGpm = inputs.brineDrawRate * step7ResinFt3;
+      step16BrineDrawMinutes = step16BrineGallons / step16BrineDrawGpm;
+      step16Message = null;
+    }
+  }
+
+  let step17SlowRinseGallons: number | null = null;
+  let step17SlowRinseMinutes: number | null = null;
+  let step17Message: string | null = step16Message;
+  if (step7ResinFt3 !== null && step16BrineDrawGpm !== null) {
+    if (isPositive(inputs.slowRinseBedVolumes)) {
+      step17SlowRinseGallons = inputs.slowRinseBedVolumes * step7ResinFt3 * GALLONS_PER_FT3;
+      step17SlowRinseMinutes = step17SlowRinseGallons / step16BrineDrawGpm;
+      step17Message = null;
+    } else {
+      step17Message = "Slow Rinse Bed Volumes must be greater than 0.";
+    }
+  }
+
+  let step18FastRinseGpm: number | null = null;
+  let step18FastRinseGallons: number | null = null;
+  let step18Message: string | null = step10Message;
+  if (step10BedAreaFt2 !== null) {
+    if (!isPositive(inputs.fastRinseRate)) {
+      step18Message = "Fast Rinse Rate must be greater than 0.";
+    } else if (!isPositive(inputs.fastRinseMinutes)) {
+      step18Message = "Fast Rinse Time must be greater than 0.";
+    } else {
+      step18FastRinseGpm = inputs.fastRinseRate * step10BedAreaFt2;
+      step18FastRinseGallons = step18FastRinseGpm * inputs.fastRinseMinutes;
+      step18Message = null;
+    }
+  }
+
+  let step19WastewaterGallons: number | null = null;
+  let step19RegenerationMinutes: number | null = null;
+  let step19PeakDrainGpm: number | null = null;
+  let step19Message: string | null = step15Message ?? step16Message ?? step17Message ?? step18Message;
+  if (
+    step12BackwashFlowGpm !== null &&
+    step15BackwashGallons !== null &&
+    step16BrineGallons !== null &&
+    step16BrineDrawGpm !== null &&
+    step16BrineDrawMinutes !== null &&
+    step17SlowRinseGallons !== null &&
+    step17SlowRinseMinutes !== null &&
+    step18FastRinseGpm !== null &&
+    step18FastRinseGallons !== null &&
+    isPositive(inputs.backwashMinutes) &&
+    isPositive(inputs.fastRinseMinutes)
+  ) {
+    step19WastewaterGallons = step15BackwashGallons + step16BrineGallons + step17SlowRinseGallons + step18FastRinseGallons;
+    step19RegenerationMinutes =
+      inputs.backwashMinutes + step16BrineDrawMinutes + step17SlowRinseMinutes + inputs.fastRinseMinutes;
+    step19PeakDrainGpm = Math.max(step12BackwashFlowGpm, step16BrineDrawGpm, step18FastRinseGpm);
+    step19Message = null;
+  }
+
+  const feedTdsMgL = waterAnalysis?.tdsMgL ?? inputs.feedTdsMgL;
+  let step20LeakageMgL: number | null = null;
+  let step20CounterCurrentLeakageMgL: number | null = null;
+  let step20MeetsTarget: boolean | null = null;
+  let step20CounterCurrentMeetsTarget: boolean | null = null;
+  let step20SuggestedDose: SaltDose | null = null;
+  let step20Message: string | null = null;
+  if (reserveBlockMessage) {
+    step20Message = reserveBlockMessage;
+  } else if (!isPositive(feedTdsMgL)) {
+    step20Message = "Enter feed TDS or a water analysis to predict hardness leakage.";
+  } else if (!isPositive(saltDose)) {
+    step20Message = "Salt Dose must be greater than 0.";
+  } else {
+    step20LeakageMgL = predictLeakageMgL(feedTdsMgL, saltDose, inputs.regenerationMode);
+    if (step20LeakageMgL === null) {
+      step20Message = SALT_DOSE_RANGE_MESSAGE;
+    } else {
+      if (inputs.regenerationMode === "co-current") {
+        step20CounterCurrentLeakageMgL = predictLeakageMgL(feedTdsMgL, saltDose, "counter-current");
+      }
+      const target = inputs.effluentTargetMgL;
+      if (target !== null && target >= 0) {
+        step20MeetsTarget = step20LeakageMgL <= target;
+        if (step20CounterCurrentLeakageMgL !== null) {
+          step20CounterCurrentMeetsTarget = step20CounterCurrentLeakageMgL <= target;
+        }
+        if (!step20MeetsTarget) {
+          step20SuggestedDose = lowestDoseMeetingTarget(feedTdsMgL, target, inputs.regenerationMode);
+        }
+      }
+    }
+  }
+
+  let step21RegenerationsPerMonth: number | null = null;
+  let step21SaltLbsPerMonth: number | null = null;
+  let step21StorageRequiredLbs: number | null = null;
+  let step21Message: string | null = step8Message;
+  const insolubleFraction = SALT_PROPERTIES[inputs.saltType].insolublePercent / 100;
+  // The brine tank must hold at least the salt drawn at once: every timed unit in one
+  // interval, or a single metered regeneration since meters start tanks one at a time.
+  let regenerationsPerMonth: number | null = null;
+  let saltLbsPerRegen: number | null = null;
+  let minimumStorageLbs: number | null = null;
+  if (inputs.regenerationControl === "metered") {
+    const metered = analyzeMeteredRegeneration(inputs, {
+      step2DesignHardnessGpg,
+      step6CapacityPerFt3,
+      step7ResinFt3,
+      step13Tank,
+      unitsInService: unitCounts ? unitsInService : null,
+    });
+    if (metered.annualRegenerations !== null && metered.saltLbsPerRegen !== null) {
+      regenerationsPerMonth = metered.annualRegenerations / 12;
+      saltLbsPerRegen = metered.saltLbsPerRegen;
+      minimumStorageLbs = metered.saltLbsPerRegen;
+    } else {
+      step21Message = metered.message;
+    }
+  } else if (step8SaltLbsPerRegen !== null && totalSaltLbsPerInterval !== null && isPositive(daysBetweenRegen)) {
+    regenerationsPerMonth = (DAYS_PER_MONTH / daysBetweenRegen) * unitsInService;
+    saltLbsPerRegen = step8SaltLbsPerRegen;
+    minimumStorageLbs = totalSaltLbsPerInterval;
+  }
+  if (regenerationsPerMonth !== null && saltLbsPerRegen !== null && minimumStorageLbs !== null) {
+    if (isPositive(inputs.refillIntervalDays)) {
+      step21RegenerationsPerMonth = regenerationsPerMonth;
+      step21SaltLbsPerMonth = saltLbsPerRegen * regenerationsPerMonth;
+      const saltLbsForRefill = (step21SaltLbsPerMonth / DAYS_PER_MONTH) * inputs.refillIntervalDays;
+      step21StorageRequiredLbs = Math.max(saltLbsForRefill, minimumStorageLbs) / (1 - insolubleFraction);
+      step21Message = null;
+    } else {
+      step21Message = "Salt Refill Interval must be greater than 0.";
+    }
+  }
+
+  let step22BrineTank: StandardBrineTank | null = null;
+  let step22SaltCapacityLbs: number | null = null;
+  let step22DaysOfAutonomy: number | null = null;
+  let step22InsolublesLbsPerMonth: number | null = null;
+  let step22Message: string | null = step21Message ?? step9Message;
+  if (step21StorageRequiredLbs !== null && step21SaltLbsPerMonth !== null && step9BrineWaterGallons !== null) {
+    step22InsolublesLbsPerMonth = (step21SaltLbsPerMonth * insolubleFraction) / (1 - insolubleFraction);
+    step22BrineTank = selectBrineTank(step21StorageRequiredLbs, step9BrineWaterGallons, inputs.saltType);
+    if (step22BrineTank) {
+      step22SaltCapacityLbs = brineTankSaltCapacityLbs(step22BrineTank, inputs.saltType);
+      step22DaysOfAutonomy = (step22SaltCapacityLbs * (1 - insolubleFraction)) / (step21SaltLbsPerMonth / DAYS_PER_MONTH);
+      step22Message = null;
+    } else {
+      step22Message =
+        "No standard brine tank stores this much salt. Shorten the refill interval, add brine tanks or use a bulk salt saturator.";
+    }
+  }
+
+  return {
+    requiredInputMissing,
+    reserveTooHigh,
+    serviceLoadingError,
+    unitsInService: unitCounts ? unitsInService : null,
+    totalUnits,
+    systemMessage,
+    waterAnalysis,
+    step1HardnessGpg,
+    step2DesignHardnessGpg,
+    step3GrainsPerDay,
+    step4RequiredGrainsPerRun,
+    step5DesignGrainsPerRun,
+    step5Message,
+    step6CapacityPerFt3,
+    step6DeratingFactor,
+    step6Message,
+    step7ResinFt3,
+    step7Message,
+    step8SaltLbsPerRegen,
+    step8Message,
+    step9BrineWaterGallons,
+    step9Message,
+    step10BedAreaFt2,
+    step10Message,
+    step11DiameterFt,
+    step11DiameterIn,
+    step11Message,
+    step12BackwashRate,
+    step12BackwashFlowGpm,
+    step12Message,
+    step13Tank,
+    step13BedDepthIn,
+    step13FreeboardIn,
+    step13ServiceLoadingRate,
+    step13Message,
+    totalResinFt3,
+    totalSaltLbsPerInterval,
+    step15BackwashGallons,
+    step15Message,
+    step16BrineGallons,
+    step16BrineDrawGpm,
+    step16BrineDrawMinutes,
+    step16Message,
+    step17SlowRinseGallons,
+    step17SlowRinseMinutes,
+    step17Message,
+    step18FastRinseGpm,
+    step18FastRinseGallons,
+    step18Message,
+    step19WastewaterGallons,
+    step19RegenerationMinutes,
+    step19PeakDrainGpm,
+    step19Message,
+    step20LeakageMgL,
+    step20CounterCurrentLeakageMgL,
+    step20MeetsTarget,
+    step20CounterCurrentMeetsTarget,
+    step20SuggestedDose,
+    step20Message,
+    step21RegenerationsPerMonth,
+    step21SaltLbsPerMonth,
+    step21StorageRequiredLbs,
+    step21Message,
+    step22BrineTank,
+    step22SaltCapacityLbs,
+    step22DaysOfAutonomy,
+    step22InsolublesLbsPerMonth,
+    step22Message,
+  };
+}
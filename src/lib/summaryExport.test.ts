@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { buildSummaryExport, type SummaryContent } from "@/lib/summaryExport";
+
+function summaryContent(name: string): SummaryContent {
+  return {
+    details: { name, customer: "", site: "", date: "", notes: "" },
+    inputs: [{ section: "Section 2 - Demand / Operating Targets", label: "Reserve capacity", value: "-5", unit: "%" }],
+    outputs: [],
+    steps: [],
+  };
+}
+
+describe("CSV summary export", () => {
+  it("keeps typed text that starts like a formula as text", () => {
+    const detailRow = (name: string) => buildSummaryExport("csv", summaryContent(name)).split("\n")[1];
+    expect(detailRow('=HYPERLINK("http://x")')).toBe('detail,,Design,"\'=HYPERLINK(""http://x"")",,');
+    expect(detailRow("+A1")).toBe("detail,,Design,'+A1,,");
+    expect(detailRow("-1+2")).toBe("detail,,Design,'-1+2,,");
+    expect(detailRow("@SUM(A1)")).toBe("detail,,Design,'@SUM(A1),,");
+  });
+
+  it("leaves numbers alone and quotes line breaks", () => {
+    const csv = buildSummaryExport("csv", summaryContent("Plant A\r\nLine 2"));
+    expect(csv).toContain('detail,,Design,"Plant A\r\nLine 2"');
+    expect(csv).toContain("input,Section 2 - Demand / Operating Targets,Reserve capacity,-5,%,");
+  });
+});
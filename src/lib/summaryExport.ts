@@ -0,0 +1,153 @@
+import { designFileSlug } from "@/lib/designFile";
+import type { InputRow } from "@/lib/inputSummary";
+import type { DesignDetails } from "@/lib/projectLibrary";
+
+export type SummaryFormat = "text" | "markdown" | "csv";
+
+export const SUMMARY_FORMAT_LABELS: Record<SummaryFormat, string> = {
+  text: "Plain text",
+  markdown: "Markdown",
+  csv: "CSV",
+};
+
+const SUMMARY_FILE_TYPES: Record<SummaryFormat, { extension: string; mimeType: string }> = {
+  text: { extension: "txt", mimeType: "text/plain" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+};
+
+/** One labelled output line, already formatted with its unit. */
+export type SummaryOutput = {
+  label: string;
+  value: string;
+};
+
+export type SummaryStep = {
+  number: number;
+  title: string;
+  result: string;
+  blockedMessage?: string | null;
+};
+
+/** Everything an export contains. Inputs come first so a pasted summary can be reproduced. */
+export type SummaryContent = {
+  details: DesignDetails;
+  inputs: InputRow[];
+  outputs: SummaryOutput[];
+  steps: SummaryStep[];
+};
+
+const TITLE = "Industrial Water Softener Sizer Summary";
+
+function detailLines(details: DesignDetails): [string, string][] {
+  return (
+    [
+      ["Design", details.name.trim()],
+      ["Customer", details.customer.trim()],
+      ["Site", details.site.trim()],
+      ["Date", details.date],
+    ] as [string, string][]
+  ).filter(([, value]) => value !== "");
+}
+
+function stepOutcome(step: SummaryStep): string {
+  return step.blockedMessage ? `Blocked: ${step.blockedMessage}` : step.result;
+}
+
+function withUnit(row: InputRow): string {
+  return row.unit ? `${row.value} ${row.unit}` : row.value;
+}
+
+function toPlainText({ details, inputs, outputs, steps }: SummaryContent): string {
+  const lines = [TITLE, ...detailLines(details).map(([label, value]) => `${label}: ${value}`)];
+
+  lines.push("", "INPUTS");
+  let section = "";
+  for (const row of inputs) {
+    if (row.section !== section) {
+      section = row.section;
+      lines.push(section);
+    }
+    lines.push(`  ${row.label}: ${withUnit(row)}`);
+  }
+
+  lines.push("", "RESULTS", ...outputs.map((output) => `  ${output.label}: ${output.value}`));
+  lines.push("", "CALCULATION STEPS", ...steps.map((step) => `  Step ${step.number}. ${step.title}: ${stepOutcome(step)}`));
+  return lines.join("\n");
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function markdownTable(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ];
+}
+
+function toMarkdown({ details, inputs, outputs, steps }: SummaryContent): string {
+  const lines = [`# ${TITLE}`, ""];
+  const detailRows = detailLines(details);
+  if (detailRows.length > 0) {
+    lines.push(...detailRows.map(([label, value]) => `- **${label}:** ${markdownCell(value)}`), "");
+  }
+
+  lines.push("## Inputs", "");
+  lines.push(...markdownTable(["Section", "Input", "Value", "Unit"], inputs.map((row) => [row.section, row.label, row.value, row.unit])));
+  lines.push("", "## Results", "");
+  lines.push(...markdownTable(["Output", "Value"], outputs.map((output) => [output.label, output.value])));
+  lines.push("", "## Calculation Steps", "");
+  lines.push(...markdownTable(["Step", "Title", "Result"], steps.map((step) => [String(step.number), step.title, stepOutcome(step)])));
+  return lines.join("\n");
+}
+
+/** Spreadsheets run a cell starting with one of these as a formula; numbers such as "-5" stay as they are. */
+const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const text = CSV_FORMULA_START.test(value) && !Number.isFinite(Number(value)) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv({ details, inputs, outputs, steps }: SummaryContent): string {
+  const rows = [
+    ["Kind", "Section", "Name", "Value", "Unit", "Note"],
+    ...detailLines(details).map(([label, value]) => ["detail", "", label, value, "", ""]),
+    ...inputs.map((row) => ["input", row.section, row.label, row.value, row.unit, ""]),
+    ...outputs.map((output) => ["result", "Summary", output.label, output.value, "", ""]),
+    ...steps.map((step) => [
+      "step",
+      `Step ${step.number}`,
+      step.title,
+      step.blockedMessage ? "" : step.result,
+      "",
+      step.blockedMessage ?? "",
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export function buildSummaryExport(format: SummaryFormat, content: SummaryContent): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(content);
+    case "csv":
+      return toCsv(content);
+    default:
+      return toPlainText(content);
+  }
+}
+
+export function downloadSummaryExport(format: SummaryFormat, content: SummaryContent): void {
+  const { extension, mimeType } = SUMMARY_FILE_TYPES[format];
+  const blob = new Blob([buildSummaryExport(format, content)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${designFileSlug(content.details)}-summary.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
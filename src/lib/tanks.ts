@@ -0,0 +1,38 @@
+/**
+ * Standard mineral tank sizes (diameter × side-shell height, inches) commonly stocked
+ * for FRP and lined-steel softeners. `maxResinFt3` is the manufacturer fill limit.
+ */
+export type StandardTank = {
+  model: string;
+  diameterIn: number;
+  sideShellIn: number;
+  maxResinFt3: number;
+};
+
+export const STANDARD_TANKS: StandardTank[] = [
+  { model: "10x54", diameterIn: 10, sideShellIn: 54, maxResinFt3: 1.5 },
+  { model: "12x52", diameterIn: 12, sideShellIn: 52, maxResinFt3: 2 },
+  { model: "14x65", diameterIn: 14, sideShellIn: 65, maxResinFt3: 3 },
+  { model: "16x65", diameterIn: 16, sideShellIn: 65, maxResinFt3: 4 },
+  { model: "21x62", diameterIn: 21, sideShellIn: 62, maxResinFt3: 7 },
+  { model: "24x72", diameterIn: 24, sideShellIn: 72, maxResinFt3: 10 },
+  { model: "30x72", diameterIn: 30, sideShellIn: 72, maxResinFt3: 15 },
+  { model: "36x72", diameterIn: 36, sideShellIn: 72, maxResinFt3: 20 },
+  { model: "42x72", diameterIn: 42, sideShellIn: 72, maxResinFt3: 30 },
+  { model: "48x72", diameterIn: 48, sideShellIn: 72, maxResinFt3: 40 },
+  { model: "54x72", diameterIn: 54, sideShellIn: 72, maxResinFt3: 50 },
+  { model: "60x72", diameterIn: 60, sideShellIn: 72, maxResinFt3: 60 },
+];
+
+export function tankAreaFt2(tank: StandardTank): number {
+  const radiusFt = tank.diameterIn / 2 / 12;
+  return Math.PI * radiusFt * radiusFt;
+}
+
+/**
+ * Smallest catalog tank that holds the resin volume and offers at least the required bed
+ * area. Returns `null` when nothing in the catalog is large enough.
+ */
+export function selectStandardTank(resinFt3: number, bedAreaFt2: number): StandardTank | null {
+  return STANDARD_TANKS.find((tank) => tank.maxResinFt3 >= resinFt3 && tankAreaFt2(tank) >= bedAreaFt2) ?? null;
+}
@@ -0,0 +1,124 @@
+/**
+ * The sizing engine always works in US customary units. Metric values are converted on the
+ * way in (form entry) and on the way out (display) with the factors below.
+ */
+export type UnitSystem = "us" | "metric";
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  us: "US customary",
+  metric: "Metric / SI",
+};
+
+export type Quantity =
+  | "dailyVolume"
+  | "flow"
+  | "loadingRate"
+  | "hardness"
+  | "grains"
+  | "capacity"
+  | "resinVolume"
+  | "saltDose"
+  | "saltMass"
+  | "saltMassLarge"
+  | "waterVolume"
+  | "waterVolumeLarge"
+  | "area"
+  | "length"
+  | "lengthLarge"
+  | "dissolution"
+  | "brineDrawRate"
+  | "priceSaltMass"
+  | "priceWaterVolume"
+  | "priceResinVolume"
+  | "temperature";
+
+export const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+  us: {
+    dailyVolume: "gallons per day",
+    flow: "gallons per minute",
+    loadingRate: "gallons per minute per square foot",
+    hardness: "grains per gallon",
+    grains: "grains",
+    capacity: "grains per cubic foot",
+    resinVolume: "ft³",
+    saltDose: "pounds of NaCl per cubic foot of resin",
+    saltMass: "pounds",
+    saltMassLarge: "tons",
+    waterVolume: "gallons",
+    waterVolumeLarge: "gallons",
+    area: "ft²",
+    length: "in",
+    lengthLarge: "feet",
+    dissolution: "pounds of salt per gallon of water",
+    brineDrawRate: "gallons per minute per cubic foot of resin",
+    priceSaltMass: "per ton",
+    priceWaterVolume: "$ per 1,000 gallons",
+    priceResinVolume: "$ per cubic foot",
+    temperature: "°F",
+  },
+  metric: {
+    dailyVolume: "m³ per day",
+    flow: "m³ per hour",
+    loadingRate: "m/h service velocity",
+    hardness: "mg/L as CaCO₃",
+    grains: "eq",
+    capacity: "eq per liter",
+    resinVolume: "L",
+    saltDose: "g NaCl per liter of resin",
+    saltMass: "kg",
+    saltMassLarge: "tonnes",
+    waterVolume: "L",
+    waterVolumeLarge: "m³",
+    area: "m²",
+    length: "mm",
+    lengthLarge: "meters",
+    dissolution: "kg of salt per liter of water",
+    brineDrawRate: "bed volumes per hour",
+    priceSaltMass: "per tonne",
+    priceWaterVolume: "$ per m³",
+    priceResinVolume: "$ per liter",
+    temperature: "°C",
+  },
+};
+
+/** Grains of hardness expressed as equivalents of CaCO₃ (64.8 mg per grain ÷ 50.04 g per eq). */
+const EQ_PER_GRAIN = 0.0012949;
+const LITERS_PER_FT3 = 28.3168;
+
+/** Multiply a US customary value by these factors to get the metric value. */
+export const METRIC_FACTORS: Record<Quantity, number> = {
+  dailyVolume: 0.00378541,
+  flow: 0.227125,
+  loadingRate: 2.44475,
+  hardness: 17.1,
+  grains: EQ_PER_GRAIN,
+  capacity: EQ_PER_GRAIN / LITERS_PER_FT3,
+  resinVolume: LITERS_PER_FT3,
+  saltDose: 16.0185,
+  saltMass: 0.453592,
+  saltMassLarge: 0.907185,
+  waterVolume: 3.78541,
+  waterVolumeLarge: 0.00378541,
+  area: 0.092903,
+  length: 25.4,
+  lengthLarge: 0.3048,
+  dissolution: 0.119826,
+  brineDrawRate: 60 / 7.48052,
+  priceSaltMass: 1.10231,
+  priceWaterVolume: 0.264172,
+  priceResinVolume: 1 / LITERS_PER_FT3,
+  temperature: 5 / 9,
+};
+
+/** Added after scaling for quantities whose scales do not share a zero (°F to °C). */
+const METRIC_OFFSETS: Partial<Record<Quantity, number>> = {
+  temperature: (-32 * 5) / 9,
+};
+
+export function toDisplayUnits(value: number, quantity: Quantity, system: UnitSystem): number {
+  return system === "metric" ? value * METRIC_FACTORS[quantity] + (METRIC_OFFSETS[quantity] ?? 0) : value;
+}
+
+export function fromDisplayUnits(value: number, quantity: Quantity, system: UnitSystem): number {
+  return system === "metric" ? (value - (METRIC_OFFSETS[quantity] ?? 0)) / METRIC_FACTORS[quantity] : value;
+}
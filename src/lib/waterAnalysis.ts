@@ -0,0 +1,146 @@
+/**
+ * Detailed feed water analysis. Ion concentrations are mg/L as the ion (not as CaCO₃);
+ * `null` means the ion was not measured and counts as zero in the balance.
+ */
+export type WaterAnalysis = {
+  calciumMgL: number | null;
+  magnesiumMgL: number | null;
+  sodiumMgL: number | null;
+  potassiumMgL: number | null;
+  ironMgL: number | null;
+  manganeseMgL: number | null;
+  bicarbonateMgL: number | null;
+  chlorideMgL: number | null;
+  sulfateMgL: number | null;
+  nitrateMgL: number | null;
+  /** Measured total dissolved solids; estimated from the ions when not entered. */
+  tdsMgL: number | null;
+  ph: number | null;
+};
+
+export type WaterAnalysisResult = {
+  /** Total hardness from calcium and magnesium, mg/L as CaCO₃. `null` when neither was entered. */
+  hardnessMgL: number | null;
+  cationsMeqL: number;
+  anionsMeqL: number;
+  /** (cations − anions) ÷ (cations + anions) × 100; `null` until both sides have ions. */
+  balanceErrorPercent: number | null;
+  balanceMessage: string | null;
+  tdsMgL: number | null;
+  tdsEstimated: boolean;
+  /** Sodium plus potassium as a share of all cations on an equivalent basis. */
+  monovalentPercent: number | null;
+  /** Multiplier applied to the table working capacity; 1 means no derating. */
+  capacityDeratingFactor: number;
+};
+
+/** Standard laboratory acceptance limit for a cation/anion balance. */
+export const ION_BALANCE_TOLERANCE_PERCENT = 5;
+
+/** Milligrams of each ion per milliequivalent (atomic or formula weight ÷ charge). */
+const MG_PER_MEQ = {
+  calcium: 20.04,
+  magnesium: 12.15,
+  sodium: 22.99,
+  potassium: 39.1,
+  iron: 27.92,
+  manganese: 27.47,
+  bicarbonate: 61.02,
+  chloride: 35.45,
+  sulfate: 48.03,
+  nitrate: 62.0,
+};
+
+/** mg/L as CaCO₃ per meq/L. */
+const CACO3_MG_PER_MEQ = 50.04;
+
+/**
+ * TDS-based derating: no loss up to 500 mg/L, then 5% per additional 500 mg/L. High ionic
+ * strength pushes the exchange equilibrium back toward sodium and shortens the run.
+ */
+const TDS_DERATING_THRESHOLD_MG_L = 500;
+const TDS_DERATING_PER_MG_L = 0.05 / 500;
+/**
+ * Sodium-based derating: once monovalent ions exceed a quarter of the cations, the brine
+ * regenerates less effectively and leakage rises, so capacity falls 0.5% per percent above.
+ */
+const MONOVALENT_DERATING_THRESHOLD_PERCENT = 25;
+const MONOVALENT_DERATING_PER_PERCENT = 0.005;
+const MIN_CAPACITY_DERATING_FACTOR = 0.6;
+
+function meq(value: number | null, mgPerMeq: number): number {
+  return value !== null && value > 0 ? value / mgPerMeq : 0;
+}
+
+export function hardnessFromCalciumMagnesium(calciumMgL: number | null, magnesiumMgL: number | null): number | null {
+  if (calciumMgL === null && magnesiumMgL === null) {
+    return null;
+  }
+  return (meq(calciumMgL, MG_PER_MEQ.calcium) + meq(magnesiumMgL, MG_PER_MEQ.magnesium)) * CACO3_MG_PER_MEQ;
+}
+
+/**
+ * Hardness, ion balance and capacity derating for an analysis. When TDS is blank it is
+ * estimated as the sum of the ions with bicarbonate counted at 0.4917 (the carbonate left
+ * after evaporation), per the standard calculated-TDS method.
+ */
+export function analyzeWater(analysis: WaterAnalysis): WaterAnalysisResult {
+  const hardnessMgL = hardnessFromCalciumMagnesium(analysis.calciumMgL, analysis.magnesiumMgL);
+
+  const monovalentMeqL = meq(analysis.sodiumMgL, MG_PER_MEQ.sodium) + meq(analysis.potassiumMgL, MG_PER_MEQ.potassium);
+  const cationsMeqL =
+    meq(analysis.calciumMgL, MG_PER_MEQ.calcium) +
+    meq(analysis.magnesiumMgL, MG_PER_MEQ.magnesium) +
+    meq(analysis.ironMgL, MG_PER_MEQ.iron) +
+    meq(analysis.manganeseMgL, MG_PER_MEQ.manganese) +
+    monovalentMeqL;
+  const anionsMeqL =
+    meq(analysis.bicarbonateMgL, MG_PER_MEQ.bicarbonate) +
+    meq(analysis.chlorideMgL, MG_PER_MEQ.chloride) +
+    meq(analysis.sulfateMgL, MG_PER_MEQ.sulfate) +
+    meq(analysis.nitrateMgL, MG_PER_MEQ.nitrate);
+
+  let balanceErrorPercent: number | null = null;
+  let balanceMessage: string | null = null;
+  if (cationsMeqL > 0 && anionsMeqL > 0) {
+    balanceErrorPercent = ((cationsMeqL - anionsMeqL) / (cationsMeqL + anionsMeqL)) * 100;
+    if (Math.abs(balanceErrorPercent) > ION_BALANCE_TOLERANCE_PERCENT) {
+      balanceMessage = `Cation/anion balance is off by ${Math.abs(balanceErrorPercent).toFixed(1)}% (limit ±${ION_BALANCE_TOLERANCE_PERCENT}%). Check the analysis for a missing or mistyped ion.`;
+    }
+  }
+
+  const measuredTds = analysis.tdsMgL !== null && analysis.tdsMgL > 0 ? analysis.tdsMgL : null;
+  const ionSum = [
+    analysis.calciumMgL,
+    analysis.magnesiumMgL,
+    analysis.sodiumMgL,
+    analysis.potassiumMgL,
+    analysis.ironMgL,
+    analysis.manganeseMgL,
+    analysis.chlorideMgL,
+    analysis.sulfateMgL,
+    analysis.nitrateMgL,
+  ].reduce<number>((sum, value) => sum + Math.max(0, value ?? 0), 0) + 0.4917 * Math.max(0, analysis.bicarbonateMgL ?? 0);
+  const tdsMgL = measuredTds ?? (ionSum > 0 ? ionSum : null);
+
+  const monovalentPercent = cationsMeqL > 0 ? (monovalentMeqL / cationsMeqL) * 100 : null;
+
+  const tdsLoss = tdsMgL === null ? 0 : Math.max(0, tdsMgL - TDS_DERATING_THRESHOLD_MG_L) * TDS_DERATING_PER_MG_L;
+  const monovalentLoss =
+    monovalentPercent === null
+      ? 0
+      : Math.max(0, monovalentPercent - MONOVALENT_DERATING_THRESHOLD_PERCENT) * MONOVALENT_DERATING_PER_PERCENT;
+  const capacityDeratingFactor = Math.max(MIN_CAPACITY_DERATING_FACTOR, (1 - tdsLoss) * (1 - monovalentLoss));
+
+  return {
+    hardnessMgL,
+    cationsMeqL,
+    anionsMeqL,
+    balanceErrorPercent,
+    balanceMessage,
+    tdsMgL,
+    tdsEstimated: measuredTds === null && tdsMgL !== null,
+    monovalentPercent,
+    capacityDeratingFactor,
+  };
+}